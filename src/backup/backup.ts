@@ -0,0 +1,315 @@
+import fs from "fs";
+import path from "path";
+import { PassThrough } from "stream";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+import tar from "tar-stream";
+import type SftpClient from "ssh2-sftp-client";
+import { DEFAULT_KEEP_BACKUPS, getConfigPath, type SiteConfig } from "../config";
+import {
+  createRemoteSymlink,
+  ensureRemoteDir,
+  readRemoteLink,
+  resolveRemoteType,
+  rightsToMode,
+  setRemoteTimes,
+} from "../sftp/client";
+import { formatReleaseName } from "../sync/releases";
+import { isPortableLink } from "../utils/links";
+import { normalizeRemotePath, sanitizeDomain } from "../utils/path";
+import { formatBytes, TransferProgress } from "../utils/progress";
+import { writeEntry, type TarHeader } from "../utils/tar";
+
+export const BACKUP_MANIFEST = ".hostinger-backup.json";
+
+export interface BackupEntry {
+  path: string;
+  type: "file" | "directory" | "symlink";
+  size: number;
+  mode: number;
+  mtime: number;
+  linkname?: string;
+}
+
+export interface BackupManifest {
+  version: 1;
+  domain: string;
+  remoteDir: string;
+  createdAt: string;
+  entries: BackupEntry[];
+}
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  size: number;
+  createdAt: Date;
+}
+
+export function getBackupDir(site: SiteConfig): string {
+  if (site.backups?.dir) {
+    return path.resolve(site.backups.dir);
+  }
+  return path.join(path.dirname(getConfigPath()), "backups", sanitizeDomain(site.domain) || "site");
+}
+
+export function formatBackupName(domain: string, date: Date = new Date()): string {
+  return `${sanitizeDomain(domain) || "site"}-${formatReleaseName(date)}.tar.gz`;
+}
+
+export function listBackups(site: SiteConfig): BackupInfo[] {
+  const dir = getBackupDir(site);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".tar.gz"))
+    .map((name) => {
+      const fullPath = path.join(dir, name);
+      const stat = fs.statSync(fullPath);
+      return { name, path: fullPath, size: stat.size, createdAt: stat.mtime };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function pruneBackups(site: SiteConfig): string[] {
+  const keep = site.backups?.keep || DEFAULT_KEEP_BACKUPS;
+  const backups = listBackups(site);
+  const excess = backups.slice(0, Math.max(0, backups.length - keep));
+  for (const backup of excess) {
+    fs.unlinkSync(backup.path);
+  }
+  return excess.map((backup) => backup.name);
+}
+
+export function resolveBackupPath(site: SiteConfig, archive: string): string {
+  if (fs.existsSync(archive)) {
+    return path.resolve(archive);
+  }
+  const stored = path.join(getBackupDir(site), archive);
+  if (fs.existsSync(stored)) {
+    return stored;
+  }
+  throw new Error(`Backup not found: ${archive}`);
+}
+
+async function listRemoteEntries(client: SftpClient, remoteDir: string, prefix = ""): Promise<BackupEntry[]> {
+  const results: BackupEntry[] = [];
+  const entries = await client.list(remoteDir);
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const remotePath = `${remoteDir}/${entry.name}`;
+    const base = { path: relative, mode: rightsToMode(entry.rights), mtime: entry.modifyTime };
+    if (entry.type === "d") {
+      results.push({ ...base, type: "directory", size: 0 });
+      results.push(...(await listRemoteEntries(client, remotePath, relative)));
+    } else if (entry.type === "l") {
+      results.push({ ...base, type: "symlink", size: 0, linkname: await readRemoteLink(client, remotePath) });
+    } else if (entry.type === "-") {
+      results.push({ ...base, type: "file", size: entry.size });
+    }
+  }
+  return results;
+}
+
+async function readEntry(entry: AsyncIterable<unknown>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of entry) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function safeRelative(name: string): string | undefined {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/")).replace(/\/+$/, "");
+  if (!normalized || normalized === "." || normalized.startsWith("/") || normalized.split("/").includes("..")) {
+    return undefined;
+  }
+  return normalized;
+}
+
+export async function createBackup(
+  client: SftpClient,
+  options: { domain: string; remoteDir: string; outFile: string }
+): Promise<BackupManifest> {
+  const remoteDir = normalizeRemotePath(options.remoteDir);
+  if ((await resolveRemoteType(client, remoteDir)) !== "d") {
+    throw new Error(`Remote directory not found: ${remoteDir}`);
+  }
+
+  const entries = await listRemoteEntries(client, remoteDir);
+  const manifest: BackupManifest = {
+    version: 1,
+    domain: options.domain,
+    remoteDir,
+    createdAt: new Date().toISOString(),
+    entries,
+  };
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  console.log(`Archiving ${entries.length} entries (${formatBytes(totalBytes)})`);
+
+  fs.mkdirSync(path.dirname(options.outFile), { recursive: true });
+  const pack = tar.pack();
+  const output = pipeline(pack, zlib.createGzip(), fs.createWriteStream(options.outFile));
+  output.catch(() => undefined);
+  const progress = new TransferProgress(totalBytes, "Downloading");
+
+  try {
+    await writeEntry(pack, { name: BACKUP_MANIFEST, mode: 0o644 }, JSON.stringify(manifest, null, 2));
+    for (const entry of entries) {
+      const header: TarHeader = {
+        name: entry.path,
+        mode: entry.mode,
+        mtime: new Date(entry.mtime),
+        size: entry.size,
+        type: entry.type,
+        linkname: entry.linkname,
+      };
+      if (entry.type !== "file") {
+        await writeEntry(pack, header);
+        continue;
+      }
+      const input = client.createReadStream(`${remoteDir}/${entry.path}`);
+      input.on("data", (chunk: Buffer) => progress.add(chunk.length));
+      await writeEntry(pack, header, input);
+    }
+    pack.finalize();
+    await output;
+  } catch (error) {
+    pack.destroy(error instanceof Error ? error : new Error(String(error)));
+    await output.catch(() => undefined);
+    fs.rmSync(options.outFile, { force: true });
+    throw error;
+  } finally {
+    progress.finish();
+  }
+
+  return manifest;
+}
+
+export async function readBackupManifest(archivePath: string): Promise<BackupManifest | null> {
+  const extract = tar.extract();
+  const input = pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), extract);
+  input.catch(() => undefined);
+  let manifest: BackupManifest | null = null;
+
+  try {
+    for await (const entry of extract) {
+      if (entry.header.name === BACKUP_MANIFEST) {
+        manifest = JSON.parse(await readEntry(entry)) as BackupManifest;
+      } else {
+        entry.resume();
+      }
+      break;
+    }
+  } finally {
+    extract.destroy();
+    await input.catch(() => undefined);
+  }
+  return manifest;
+}
+
+export async function restoreBackup(
+  client: SftpClient,
+  options: { archivePath: string; remoteDir: string }
+): Promise<{ restored: number; manifest: BackupManifest | null }> {
+  const remoteDir = normalizeRemotePath(options.remoteDir);
+  const extract = tar.extract();
+  const input = pipeline(fs.createReadStream(options.archivePath), zlib.createGunzip(), extract);
+  input.catch(() => undefined);
+  const createdDirs = new Set<string>();
+  const links: string[] = [];
+  const directories: Array<{ remotePath: string; mode?: number; mtime?: Date }> = [];
+  let manifest: BackupManifest | null = null;
+  let progress: TransferProgress | undefined;
+  let restored = 0;
+
+  const ensureDir = async (remotePath: string) => {
+    if (!createdDirs.has(remotePath)) {
+      await ensureRemoteDir(client, remotePath);
+      createdDirs.add(remotePath);
+    }
+  };
+
+  try {
+    for await (const entry of extract) {
+      const { header } = entry;
+      if (header.name === BACKUP_MANIFEST) {
+        manifest = JSON.parse(await readEntry(entry)) as BackupManifest;
+        const totalBytes = manifest.entries.reduce((sum, item) => sum + item.size, 0);
+        console.log(`Restoring ${manifest.entries.length} entries (${formatBytes(totalBytes)}) to ${remoteDir}`);
+        progress = new TransferProgress(totalBytes, "Uploading");
+        continue;
+      }
+
+      const relative = safeRelative(header.name);
+      if (!relative || links.some((link) => relative.startsWith(`${link}/`))) {
+        entry.resume();
+        continue;
+      }
+      const remotePath = `${remoteDir}/${relative}`;
+
+      if (header.type === "directory") {
+        entry.resume();
+        await ensureDir(remotePath);
+        directories.push({ remotePath, mode: header.mode, mtime: header.mtime });
+        continue;
+      }
+
+      if (header.type === "symlink" && header.linkname) {
+        entry.resume();
+        // A link leaving the restore root would let later entries be written outside it.
+        if (!isPortableLink(remoteDir, remotePath, header.linkname, path.posix)) {
+          console.warn(`Skipped ${relative} -> ${header.linkname}: link points outside ${remoteDir}`);
+          continue;
+        }
+        links.push(relative);
+        await ensureDir(path.posix.dirname(remotePath));
+        if (await client.exists(remotePath)) {
+          await client.delete(remotePath);
+        }
+        await createRemoteSymlink(client, header.linkname, remotePath);
+        restored += 1;
+        continue;
+      }
+
+      if (header.type !== "file") {
+        entry.resume();
+        continue;
+      }
+
+      await ensureDir(path.posix.dirname(remotePath));
+      const body = new PassThrough();
+      entry.on("data", (chunk) => progress?.add((chunk as Buffer).length));
+      entry.pipe(body);
+      await client.put(body, remotePath);
+      if (header.mode !== undefined) {
+        await client.chmod(remotePath, header.mode & 0o7777);
+      }
+      if (header.mtime) {
+        await setRemoteTimes(client, remotePath, header.mtime.getTime(), header.mtime.getTime());
+      }
+      restored += 1;
+    }
+    await input;
+  } catch (error) {
+    extract.destroy();
+    await input.catch(() => undefined);
+    throw error;
+  } finally {
+    progress?.finish();
+  }
+
+  for (const directory of directories.reverse()) {
+    if (directory.mode !== undefined) {
+      await client.chmod(directory.remotePath, directory.mode & 0o7777);
+    }
+    if (directory.mtime) {
+      await setRemoteTimes(client, directory.remotePath, directory.mtime.getTime(), directory.mtime.getTime());
+    }
+  }
+
+  return { restored, manifest };
+}
@@ -0,0 +1,208 @@
+import fs from "fs";
+import path from "path";
+import type SftpClient from "ssh2-sftp-client";
+import type { ConfigFile, SiteConfig } from "./config";
+import { resolveFromCwd } from "./utils/path";
+
+type ArgKind = "remote" | "local" | "domain" | "none";
+
+interface CommandSpec {
+  args?: ArgKind[];
+  flags?: string[];
+}
+
+const TRANSFER_FLAGS = ["--resume", "--checksum", "--preserve", "--follow-symlinks", "--limit-rate"];
+const DEPLOY_FLAGS = [
+  "--jobs",
+  "--exclude",
+  "--include",
+  "--archive",
+  "--on-conflict",
+  "--no-hooks",
+  ...TRANSFER_FLAGS,
+];
+
+const COMMANDS: Record<string, CommandSpec> = {
+  help: {},
+  domains: {},
+  connect: { args: ["domain"] },
+  disconnect: {},
+  pwd: {},
+  root: { args: ["remote"] },
+  cd: { args: ["remote"] },
+  ls: { args: ["remote"], flags: ["-l", "-a", "-h", "-t", "-S", "-R"] },
+  mkdir: { args: ["remote"] },
+  rm: { args: ["remote"], flags: ["-r", "--yes", "--jobs"] },
+  mv: { args: ["remote", "remote"] },
+  cp: { args: ["remote", "remote"], flags: ["-r"] },
+  chmod: { args: ["none", "remote"], flags: ["-R", "--yes", "--jobs"] },
+  stat: { args: ["remote"] },
+  lpwd: {},
+  lcd: { args: ["local"] },
+  lls: { args: ["local"], flags: ["-l", "-a", "-h", "-t", "-S", "-R"] },
+  lmkdir: { args: ["local"] },
+  put: { args: ["local", "remote"], flags: ["--yes", ...TRANSFER_FLAGS] },
+  get: { args: ["remote", "local"], flags: ["--jobs", ...TRANSFER_FLAGS] },
+  replace: { args: ["local", "remote"], flags: ["--verify", ...DEPLOY_FLAGS] },
+  update: { args: ["local", "remote"], flags: ["--verify", ...DEPLOY_FLAGS] },
+  sync: {
+    args: ["local", "remote"],
+    flags: ["--delete", "--dry-run", "--yes", "--verify", "--threshold", "-v", ...DEPLOY_FLAGS],
+  },
+  pull: {
+    args: ["remote", "local"],
+    flags: [
+      "--delete",
+      "--dry-run",
+      "--yes",
+      "--threshold",
+      "--jobs",
+      "--exclude",
+      "--include",
+      "-v",
+      ...TRANSFER_FLAGS,
+    ],
+  },
+  watch: { args: ["local", "remote"], flags: ["--debounce", "--exclude", "--include"] },
+  deploy: { args: ["local"], flags: ["--keep", ...DEPLOY_FLAGS.filter((flag) => flag !== "--resume")] },
+  rollback: {},
+  releases: {},
+  history: { args: ["none"] },
+  backup: { args: ["remote"], flags: ["--out", "--keep"] },
+  restore: { args: ["local", "remote"], flags: ["--site"] },
+  backups: {},
+  exec: {},
+  open: { args: ["remote"], flags: ["--interactive"] },
+  mount: { args: ["remote"], flags: ["--interactive"] },
+  umount: { args: ["domain"] },
+  mounts: {},
+  clear: {},
+  exit: {},
+  quit: {},
+};
+
+const VALUE_FLAGS = new Set([
+  "--jobs",
+  "--limit-rate",
+  "--exclude",
+  "--include",
+  "--threshold",
+  "--on-conflict",
+  "--keep",
+  "--out",
+  "--site",
+  "--debounce",
+]);
+
+export type RemoteLister = (site: SiteConfig, remoteDir: string) => Promise<SftpClient.FileInfo[]>;
+
+export interface ListingCache {
+  list: (site: SiteConfig, remoteDir: string) => Promise<SftpClient.FileInfo[]>;
+  invalidate: () => void;
+}
+
+// Listings are kept for the whole session; commands that change the remote tree clear them.
+export function createListingCache(lister: RemoteLister): ListingCache {
+  const listings = new Map<string, Promise<SftpClient.FileInfo[]>>();
+  return {
+    list: (site, remoteDir) => {
+      const key = `${site.domain}:${remoteDir}`;
+      let listing = listings.get(key);
+      if (!listing) {
+        listing = lister(site, remoteDir);
+        listings.set(key, listing);
+        listing.catch(() => listings.delete(key));
+      }
+      return listing;
+    },
+    invalidate: () => listings.clear(),
+  };
+}
+
+function splitWord(word: string, separators: string[]): { dir: string; base: string } {
+  const index = Math.max(...separators.map((separator) => word.lastIndexOf(separator)));
+  return { dir: word.slice(0, index + 1), base: word.slice(index + 1) };
+}
+
+function completeLocal(word: string): string[] {
+  const { dir, base } = splitWord(word, path.sep === "\\" ? ["/", "\\"] : ["/"]);
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(path.resolve(dir || "."), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry.name.startsWith(base) && (base.startsWith(".") || !entry.name.startsWith(".")))
+    .map((entry) => `${dir}${entry.name}${entry.isDirectory() ? path.sep : ""}`)
+    .sort();
+}
+
+async function completeRemote(word: string, site: SiteConfig, cache: ListingCache): Promise<string[]> {
+  const { dir, base } = splitWord(word, ["/"]);
+  const cwd = site.remoteCwd || site.remoteRoot;
+  const remoteDir = resolveFromCwd(site.remoteRoot, cwd, dir || ".");
+  const entries = await cache.list(site, remoteDir);
+  return entries
+    .filter((entry) => entry.name.startsWith(base) && (base.startsWith(".") || !entry.name.startsWith(".")))
+    .map((entry) => `${dir}${entry.name}${entry.type === "d" ? "/" : ""}`)
+    .sort();
+}
+
+function positionalIndex(tokens: string[]): number {
+  let index = 0;
+  for (let i = 1; i < tokens.length - 1; i += 1) {
+    if (VALUE_FLAGS.has(tokens[i])) {
+      i += 1;
+    } else if (!tokens[i].startsWith("-")) {
+      index += 1;
+    }
+  }
+  return index;
+}
+
+export function createCompleter(
+  config: ConfigFile,
+  getSite: () => SiteConfig | undefined,
+  cache: ListingCache
+): (line: string, callback: (error: Error | null, result: [string[], string]) => void) => void {
+  const complete = async (line: string): Promise<[string[], string]> => {
+    const tokens = line.trimStart().split(/\s+/);
+    const word = tokens[tokens.length - 1];
+    if (tokens.length === 1) {
+      return [Object.keys(COMMANDS).filter((name) => name.startsWith(word)), word];
+    }
+
+    const spec = COMMANDS[tokens[0].toLowerCase()];
+    if (!spec) {
+      return [[], word];
+    }
+    if (word.startsWith("-")) {
+      return [(spec.flags || []).filter((flag) => flag.startsWith(word)), word];
+    }
+    if (VALUE_FLAGS.has(tokens[tokens.length - 2])) {
+      return [[], word];
+    }
+
+    const kinds = spec.args || [];
+    const kind = kinds[Math.min(positionalIndex(tokens), kinds.length - 1)];
+    const site = getSite();
+    if (kind === "domain") {
+      return [Object.keys(config.sites).filter((domain) => domain.startsWith(word)), word];
+    }
+    if (kind === "local") {
+      return [completeLocal(word), word];
+    }
+    if (kind === "remote" && site) {
+      return [await completeRemote(word, site, cache), word];
+    }
+    return [[], word];
+  };
+
+  return (line, callback) => {
+    complete(line).then(
+      (result) => callback(null, result),
+      () => callback(null, [[], ""])
+    );
+  };
+}
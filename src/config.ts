@@ -24,6 +24,28 @@ export interface SftpConfig {
   auth: SftpAuth;
 }
 
+export interface ReleaseConfig {
+  link?: string;
+  dir?: string;
+  keep?: number;
+}
+
+export interface BackupConfig {
+  dir?: string;
+  keep?: number;
+}
+
+export interface HistoryConfig {
+  remote?: boolean;
+  keep?: number;
+}
+
+export interface HooksConfig {
+  preDeploy?: string[];
+  postDeploy?: string[];
+  onFailure?: string[];
+}
+
 export interface SiteConfig {
   domain: string;
   remoteRoot: string;
@@ -31,6 +53,14 @@ export interface SiteConfig {
   username?: string;
   orderId?: number;
   remoteCwd?: string;
+  jobs?: number;
+  releases?: ReleaseConfig;
+  ignore?: string[];
+  deleteThreshold?: number;
+  backups?: BackupConfig;
+  limitRate?: string;
+  hooks?: HooksConfig;
+  history?: HistoryConfig;
 }
 
 export interface ApiConfig {
@@ -38,13 +68,27 @@ export interface ApiConfig {
   baseUrl?: string;
 }
 
+export interface SessionConfig {
+  keepalive?: number;
+  idleTimeout?: number;
+}
+
 export interface ConfigFile {
   api: ApiConfig;
   activeSite?: string;
   sites: Record<string, SiteConfig>;
+  session?: SessionConfig;
 }
 
 const DEFAULT_BASE_URL = "https://developers.hostinger.com";
+export const DEFAULT_JOBS = 4;
+export const MAX_JOBS = 16;
+export const DEFAULT_KEEP_RELEASES = 5;
+export const DEFAULT_DELETE_THRESHOLD = 20;
+export const DEFAULT_KEEP_BACKUPS = 10;
+export const DEFAULT_KEEP_HISTORY = 100;
+export const DEFAULT_KEEPALIVE_SECONDS = 15;
+export const DEFAULT_IDLE_TIMEOUT_SECONDS = 300;
 
 export function getConfigPath(): string {
   const platform = os.platform();
@@ -69,6 +113,7 @@ export function readConfig(): ConfigFile {
     api: parsed.api || {},
     activeSite: parsed.activeSite,
     sites: parsed.sites || {},
+    session: parsed.session,
   };
 }
 
@@ -85,6 +130,32 @@ export function getApiConfig(config: ConfigFile): Required<ApiConfig> {
   return { token, baseUrl };
 }
 
+export function getSftpFromEnv(): SftpConfig | undefined {
+  const host = process.env.HOSTINGER_SFTP_HOST;
+  const username = process.env.HOSTINGER_SFTP_USERNAME;
+  if (!host || !username) {
+    return undefined;
+  }
+
+  const port = Number(process.env.HOSTINGER_SFTP_PORT || 65002);
+  if (process.env.HOSTINGER_SFTP_KEY) {
+    return {
+      host,
+      port,
+      username,
+      auth: {
+        type: "key",
+        privateKeyPath: process.env.HOSTINGER_SFTP_KEY,
+        passphrase: process.env.HOSTINGER_SFTP_PASSPHRASE,
+      },
+    };
+  }
+  if (process.env.HOSTINGER_SFTP_PASSWORD) {
+    return { host, port, username, auth: { type: "password", password: process.env.HOSTINGER_SFTP_PASSWORD } };
+  }
+  throw new Error("Set HOSTINGER_SFTP_PASSWORD or HOSTINGER_SFTP_KEY together with HOSTINGER_SFTP_HOST.");
+}
+
 export function getActiveSite(config: ConfigFile): SiteConfig {
   const active = config.activeSite;
   if (!active) {
@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import type readline from "readline";
+import { getConfigPath } from "../config";
+
+export const SHELL_HISTORY_SIZE = 1000;
+
+const SENSITIVE_PATTERN =
+  /\b(pass(word|wd|phrase)?|secret|token|api[-_]?key)\s*[=:]|--?(password|passwd|passphrase|token|secret|api[-_]?key)\b|\bbearer\s+\S|:\/\/[^/\s:@]+:[^/\s@]+@/i;
+// `-p` only carries a password for these tools; elsewhere it is an ordinary flag (`cp -p`, `mkdir -p`).
+const PASSWORD_FLAG_PATTERN = /\b(mysql|mysqldump|mysqladmin)\b.*\s-p\S|\bsshpass\b.*\s-p/;
+
+interface SearchState {
+  prompt: string;
+  original: string;
+  skip: number;
+  match?: string;
+}
+
+export function getShellHistoryPath(): string {
+  return path.join(path.dirname(getConfigPath()), "shell_history");
+}
+
+export function isSensitiveCommand(line: string): boolean {
+  return SENSITIVE_PATTERN.test(line) || PASSWORD_FLAG_PATTERN.test(line);
+}
+
+// The file is oldest-first, one command per line; readline wants newest-first.
+export function readShellHistory(): string[] {
+  const historyPath = getShellHistoryPath();
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  const history: string[] = [];
+  const lines = fs.readFileSync(historyPath, "utf8").split(/\r?\n/).reverse();
+  for (const line of lines) {
+    const command = line.trim();
+    if (command && !history.includes(command) && !isSensitiveCommand(command)) {
+      history.push(command);
+    }
+  }
+  return history.slice(0, SHELL_HISTORY_SIZE);
+}
+
+export function writeShellHistory(history: string[]): void {
+  const historyPath = getShellHistoryPath();
+  const lines = history.slice(0, SHELL_HISTORY_SIZE).reverse();
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.writeFileSync(historyPath, lines.length ? `${lines.join("\n")}\n` : "", { encoding: "utf8", mode: 0o600 });
+}
+
+function isQueryKey(input: string | undefined, key: readline.Key | undefined): boolean {
+  if (key?.name === "backspace" || key?.name === "delete") {
+    return true;
+  }
+  return Boolean(input && input.length === 1 && input >= " " && !key?.ctrl && !key?.meta);
+}
+
+// Ctrl+R searches the history for the text typed so far and Ctrl+R again steps to older matches. Enter runs
+// the match, Esc or a movement key keeps it for editing, Ctrl+G restores the line. This listener runs before
+// readline's, so the line is swapped before readline handles Enter.
+export function attachReverseSearch(
+  input: NodeJS.ReadableStream,
+  getInterface: () => readline.Interface | undefined,
+  history: string[]
+): () => void {
+  let search: SearchState | undefined;
+
+  const replaceLine = (rl: readline.Interface, line: string) => {
+    rl.write(null, { ctrl: true, name: "e" });
+    rl.write(null, { ctrl: true, name: "u" });
+    rl.write(line);
+  };
+
+  const finish = (rl: readline.Interface, line: string) => {
+    rl.setPrompt(search?.prompt ?? rl.getPrompt());
+    search = undefined;
+    replaceLine(rl, line);
+  };
+
+  const render = () => {
+    const rl = getInterface();
+    if (!search || !rl) {
+      return;
+    }
+    const query = rl.line;
+    const matches = query ? history.filter((entry) => entry.includes(query)) : [];
+    search.skip = Math.min(search.skip, Math.max(matches.length - 1, 0));
+    search.match = matches[search.skip];
+    rl.setPrompt(`(reverse-i-search: ${search.match ?? "no match"}) `);
+    rl.prompt(true);
+  };
+
+  const onKeypress = (value: string | undefined, key: readline.Key | undefined) => {
+    const rl = getInterface();
+    if (!rl) {
+      search = undefined;
+      return;
+    }
+    if (key?.ctrl && key.name === "r") {
+      if (search) {
+        search.skip += 1;
+      } else {
+        search = { prompt: rl.getPrompt(), original: rl.line, skip: 0 };
+      }
+      setImmediate(render);
+      return;
+    }
+    if (!search) {
+      return;
+    }
+    if (key?.ctrl && (key.name === "g" || key.name === "c")) {
+      finish(rl, search.original);
+    } else if (isQueryKey(value, key)) {
+      search.skip = 0;
+      setImmediate(render);
+    } else {
+      finish(rl, search.match ?? rl.line);
+    }
+  };
+
+  input.prependListener("keypress", onKeypress);
+  return () => {
+    input.removeListener("keypress", onKeypress);
+  };
+}
@@ -0,0 +1,142 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import type SftpClient from "ssh2-sftp-client";
+import { DEFAULT_KEEP_HISTORY, getConfigPath, type SiteConfig } from "../config";
+import { formatReleaseName } from "../sync/releases";
+import type { SyncFailure, SyncResult } from "../sync/sync";
+import { sanitizeDomain } from "../utils/path";
+
+export const DEPLOY_LOG = ".hostinger-deploys.json";
+
+export interface DeployRecord {
+  id: string;
+  timestamp: string;
+  domain: string;
+  command: string;
+  user: string;
+  host: string;
+  commit?: string;
+  localDir: string;
+  remoteDir: string;
+  status: "success" | "failed";
+  error?: string;
+  uploaded: string[];
+  deleted: string[];
+  failed: SyncFailure[];
+  skipped: number;
+  bytes: number;
+  durationMs: number;
+}
+
+export function getHistoryPath(site: SiteConfig): string {
+  return path.join(path.dirname(getConfigPath()), "history", `${sanitizeDomain(site.domain) || "site"}.json`);
+}
+
+export function getGitCommit(dir: string): string | undefined {
+  const result = spawnSync("git", ["rev-parse", "--short", "HEAD"], { cwd: dir, encoding: "utf8" });
+  if (result.status !== 0) {
+    return undefined;
+  }
+  const commit = result.stdout.trim();
+  const dirty = spawnSync("git", ["status", "--porcelain"], { cwd: dir, encoding: "utf8" });
+  return dirty.status === 0 && dirty.stdout.trim() ? `${commit}-dirty` : commit;
+}
+
+export function createDeployRecord(options: {
+  site: SiteConfig;
+  command: string;
+  localDir: string;
+  remoteDir: string;
+  startedAt: Date;
+  result?: SyncResult;
+  error?: string;
+}): DeployRecord {
+  const { result } = options;
+  return {
+    id: formatReleaseName(options.startedAt),
+    timestamp: options.startedAt.toISOString(),
+    domain: options.site.domain,
+    command: options.command,
+    user: os.userInfo().username,
+    host: os.hostname(),
+    commit: getGitCommit(options.localDir),
+    localDir: options.localDir,
+    remoteDir: options.remoteDir,
+    status: options.error ? "failed" : "success",
+    error: options.error,
+    uploaded: result?.uploaded || [],
+    deleted: result?.deleted || [],
+    failed: result?.failed || [],
+    skipped: result?.skipped.length || 0,
+    bytes: result?.bytes || 0,
+    durationMs: Date.now() - options.startedAt.getTime(),
+  };
+}
+
+export function readHistory(site: SiteConfig): DeployRecord[] {
+  const historyPath = getHistoryPath(site);
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(historyPath, "utf8")) as DeployRecord[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Ids have one-second precision, so a second deploy within the same second gets a numeric suffix.
+function uniqueDeployId(id: string, records: DeployRecord[]): string {
+  const ids = new Set(records.map((record) => record.id));
+  let unique = id;
+  for (let suffix = 2; ids.has(unique); suffix += 1) {
+    unique = `${id}-${suffix}`;
+  }
+  return unique;
+}
+
+export function appendHistory(site: SiteConfig, record: DeployRecord): void {
+  const keep = site.history?.keep || DEFAULT_KEEP_HISTORY;
+  const existing = readHistory(site);
+  record.id = uniqueDeployId(record.id, existing);
+  const records = [...existing, record].slice(-keep);
+  const historyPath = getHistoryPath(site);
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.writeFileSync(historyPath, JSON.stringify(records, null, 2), "utf8");
+}
+
+export async function appendRemoteHistory(
+  client: SftpClient,
+  remoteRoot: string,
+  record: DeployRecord,
+  keep: number
+): Promise<void> {
+  const logPath = `${remoteRoot}/${DEPLOY_LOG}`;
+  let records: DeployRecord[] = [];
+  if ((await client.exists(logPath)) === "-") {
+    try {
+      const parsed = JSON.parse((await client.get(logPath)).toString()) as DeployRecord[];
+      records = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      records = [];
+    }
+  }
+  records = [...records, record].slice(-keep);
+  await client.put(Buffer.from(JSON.stringify(records, null, 2), "utf8"), logPath);
+}
+
+export function findDeployRecord(site: SiteConfig, id: string): DeployRecord {
+  const records = readHistory(site);
+  const exact = records.find((record) => record.id === id);
+  if (exact) {
+    return exact;
+  }
+  const matches = records.filter((record) => record.id.startsWith(id));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  throw new Error(matches.length > 1 ? `Deploy id ${id} is ambiguous.` : `Deploy not found: ${id}`);
+}
@@ -1,17 +1,42 @@
 #!/usr/bin/env node
+import fs from "fs";
 import { Command } from "commander";
 import { createApiClient } from "./api/client";
 import { listWebsites } from "./api/hosting";
 import { ensureSite, readConfig, writeConfig } from "./config";
 import { printWebsites } from "./utils/output";
-import { startShell } from "./shell";
+import { shellQuote } from "./sftp/exec";
+import { runExec, runProjectDeploy, runScript, runWatch, startShell } from "./shell";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
 
 const program = new Command();
 
 program
   .name("hostinger")
   .description("Hostinger website management CLI (API + SFTP)")
-  .version("0.2.0");
+  .version("0.2.0")
+  .option("-c, --command <commands>", "Run shell commands separated by ';' and exit")
+  .option("--continue-on-error", "Keep running after a command fails")
+  .enablePositionalOptions()
+  .action(async (options: { command?: string; continueOnError?: boolean }, command: Command) => {
+    if (command.args.length > 0) {
+      command.error(`error: unknown command '${command.args[0]}'`);
+    }
+    if (options.command !== undefined) {
+      process.exitCode = await runScript(options.command, options);
+    } else if (!process.stdin.isTTY) {
+      process.exitCode = await runScript(await readStdin(), options);
+    } else {
+      await startShell();
+    }
+  });
 
 program
   .command("token")
@@ -64,12 +89,63 @@ program
     console.log(`Connected to ${domain}${match.username ? ` (user ${match.username})` : ""}.`);
   });
 
-async function run(): Promise<void> {
-  if (process.argv.length <= 2) {
-    await startShell();
-    return;
-  }
+program
+  .command("watch <local> [remote]")
+  .description("Watch a local directory and upload changes to the active site")
+  .option("--debounce <ms>", "Wait this long after the last change before uploading")
+  .option("--exclude <pattern...>", "Skip files matching these gitignore patterns")
+  .option("--include <pattern...>", "Upload files matching these patterns even if ignored")
+  .action(
+    async (
+      local: string,
+      remote: string | undefined,
+      options: { debounce?: string; exclude?: string[]; include?: string[] }
+    ) => {
+      const args = [local, ...(remote ? [remote] : [])];
+      if (options.debounce) {
+        args.push("--debounce", options.debounce);
+      }
+      for (const pattern of options.exclude || []) {
+        args.push("--exclude", pattern);
+      }
+      for (const pattern of options.include || []) {
+        args.push("--include", pattern);
+      }
+      await runWatch(args);
+    }
+  );
 
+program
+  .command("exec <command...>")
+  .description("Run a command on the active site over SSH")
+  .allowUnknownOption()
+  .helpOption(false)
+  .action(async (command: string[]) => {
+    // A single argument is a complete command line; several are quoted so each reaches the server intact.
+    process.exitCode = await runExec(command.length === 1 ? command[0] : command.map(shellQuote).join(" "));
+  });
+
+program
+  .command("deploy")
+  .description("Deploy the current project as described in hostinger.json or .hostingerrc")
+  .option("--config <file>", "Use this project file instead of searching for one")
+  .option("--dry-run", "Show what would change without uploading")
+  .option("--yes", "Allow deleting more files than the configured threshold")
+  .option("--no-hooks", "Skip preDeploy, postDeploy and onFailure hooks")
+  .action(async (options: { config?: string; dryRun?: boolean; yes?: boolean; hooks?: boolean }) => {
+    await runProjectDeploy(options);
+  });
+
+program
+  .command("run <script>")
+  .description("Run shell commands from a file, one per line")
+  .option("--continue-on-error", "Keep running after a command fails")
+  .action(async (script: string, options: { continueOnError?: boolean }) => {
+    const continueOnError = options.continueOnError || program.opts().continueOnError;
+    process.exitCode = await runScript(fs.readFileSync(script, "utf8"), { continueOnError });
+  });
+
+async function run(): Promise<void> {
   await program.parseAsync(process.argv);
 }
 
@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import { MAX_JOBS, type HooksConfig } from "./config";
+import type { ConflictResolution } from "./sync/sync";
+
+export const PROJECT_FILES = ["hostinger.json", ".hostingerrc"];
+
+export type DeployMode = "update" | "replace" | "sync" | "release";
+
+const DEPLOY_MODES: DeployMode[] = ["update", "replace", "sync", "release"];
+
+export interface ProjectConfig {
+  domain: string;
+  localDir: string;
+  remoteRoot?: string;
+  remoteDir?: string;
+  mode?: DeployMode;
+  delete?: boolean;
+  ignore?: string[];
+  exclude?: string[];
+  include?: string[];
+  jobs?: number;
+  limitRate?: string;
+  archive?: boolean;
+  preserve?: boolean;
+  followSymlinks?: boolean;
+  resume?: boolean;
+  checksum?: boolean;
+  verify?: boolean;
+  onConflict?: ConflictResolution;
+  deleteThreshold?: number;
+  keep?: number;
+  hooks?: HooksConfig;
+}
+
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+  let current = path.resolve(startDir);
+  while (true) {
+    for (const name of PROJECT_FILES) {
+      const candidate = path.join(current, name);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+export function readProjectConfig(filePath: string): ProjectConfig {
+  let parsed: ProjectConfig;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, "utf8")) as ProjectConfig;
+  } catch (error) {
+    throw new Error(`Could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!parsed || typeof parsed.domain !== "string" || !parsed.domain) {
+    throw new Error(`${filePath} must set "domain".`);
+  }
+  if (typeof parsed.localDir !== "string" || !parsed.localDir) {
+    throw new Error(`${filePath} must set "localDir".`);
+  }
+  if (parsed.mode && !DEPLOY_MODES.includes(parsed.mode)) {
+    throw new Error(`${filePath}: "mode" must be one of ${DEPLOY_MODES.join(", ")}.`);
+  }
+  if (
+    parsed.jobs !== undefined &&
+    (typeof parsed.jobs !== "number" || !Number.isInteger(parsed.jobs) || parsed.jobs < 1 || parsed.jobs > MAX_JOBS)
+  ) {
+    throw new Error(`${filePath}: "jobs" must be an integer between 1 and ${MAX_JOBS}.`);
+  }
+  return parsed;
+}
@@ -1,15 +1,40 @@
 import fs from "fs";
 import path from "path";
 import SftpClient from "ssh2-sftp-client";
+import { pipeline } from "stream/promises";
+import type { SFTPWrapper } from "ssh2";
 import type { SftpConfig } from "../config";
+import { hashStream } from "../utils/hash";
+import { runPool } from "../utils/pool";
 import type { ProgressReporter } from "../utils/progress";
+import type { RateLimiter } from "../utils/throttle";
 
 export interface ConnectedSftp {
   client: SftpClient;
   close: () => Promise<void>;
 }
 
-export async function connectSftp(config: SftpConfig): Promise<ConnectedSftp> {
+export interface ConnectedSftpPool {
+  clients: SftpClient[];
+  close: () => Promise<void>;
+}
+
+export interface TransferOptions {
+  resume?: boolean;
+  checksum?: boolean;
+  limiter?: RateLimiter;
+  preserve?: boolean;
+  followSymlinks?: boolean;
+}
+
+export interface ConnectOptions {
+  keepaliveInterval?: number;
+}
+
+export const RESUMABLE_THRESHOLD = 64 * 1024 * 1024;
+export const PART_SUFFIX = ".part";
+
+export async function connectSftp(config: SftpConfig, options: ConnectOptions = {}): Promise<ConnectedSftp> {
   const client = new SftpClient();
 
   const baseOptions: Record<string, unknown> = {
@@ -17,6 +42,9 @@ export async function connectSftp(config: SftpConfig): Promise<ConnectedSftp> {
     port: config.port,
     username: config.username,
   };
+  if (options.keepaliveInterval) {
+    baseOptions.keepaliveInterval = options.keepaliveInterval;
+  }
 
   if (config.auth.type === "password") {
     baseOptions.password = config.auth.password;
@@ -38,22 +66,242 @@ export async function connectSftp(config: SftpConfig): Promise<ConnectedSftp> {
   };
 }
 
+export async function connectSftpPool(config: SftpConfig, size: number): Promise<ConnectedSftpPool> {
+  const primary = await connectSftp(config);
+  const extra = await Promise.allSettled(
+    Array.from({ length: Math.max(0, size - 1) }, () => connectSftp(config))
+  );
+  const connections = [
+    primary,
+    ...extra.flatMap((result) => (result.status === "fulfilled" ? [result.value] : [])),
+  ];
+
+  return {
+    clients: connections.map((connection) => connection.client),
+    close: async () => {
+      await Promise.all(connections.map((connection) => connection.close()));
+    },
+  };
+}
+
+function meterStream(
+  stream: NodeJS.ReadableStream,
+  progress: ProgressReporter | undefined,
+  limiter: RateLimiter | undefined
+): NodeJS.ReadableStream {
+  let output = stream;
+  if (limiter) {
+    const throttle = limiter.throttle();
+    stream.on("error", (error) => throttle.destroy(error));
+    output = stream.pipe(throttle);
+  }
+  if (progress) {
+    output.on("data", (chunk: Buffer) => progress.add(chunk.length));
+  }
+  return output;
+}
+
+async function putResumable(
+  client: SftpClient,
+  localPath: string,
+  remotePath: string,
+  size: number,
+  progress: ProgressReporter | undefined,
+  options: TransferOptions
+): Promise<void> {
+  const partPath = `${remotePath}${PART_SUFFIX}`;
+  let offset = 0;
+  if (options.resume && (await client.exists(partPath)) === "-") {
+    offset = (await client.stat(partPath)).size;
+    if (offset > size) {
+      offset = 0;
+    }
+  }
+
+  progress?.add(offset);
+  if (offset > 0) {
+    const input = fs.createReadStream(localPath, { start: offset });
+    await client.append(meterStream(input, progress, options.limiter), partPath);
+  } else {
+    await client.put(meterStream(fs.createReadStream(localPath), progress, options.limiter), partPath);
+  }
+
+  const uploadedSize = (await client.stat(partPath)).size;
+  if (uploadedSize !== size) {
+    throw new Error(`Size mismatch for ${remotePath}: expected ${size} bytes, got ${uploadedSize}.`);
+  }
+  if (options.checksum) {
+    const [localHash, remoteHash] = await Promise.all([
+      hashStream(fs.createReadStream(localPath)),
+      hashStream(client.createReadStream(partPath)),
+    ]);
+    if (localHash !== remoteHash) {
+      await client.delete(partPath);
+      throw new Error(`Checksum mismatch for ${remotePath}; partial upload discarded.`);
+    }
+  }
+  await client.posixRename(partPath, remotePath);
+}
+
 export async function putWithProgress(
   client: SftpClient,
   localPath: string,
   remotePath: string,
-  progress?: ProgressReporter
+  progress?: ProgressReporter,
+  options: TransferOptions = {}
 ): Promise<void> {
-  if (!progress) {
+  const size = fs.statSync(localPath).size;
+  if (size >= RESUMABLE_THRESHOLD || options.resume) {
+    await putResumable(client, localPath, remotePath, size, progress, options);
+  } else if (!progress && !options.limiter) {
     await client.put(localPath, remotePath);
-    return;
+  } else {
+    await client.put(meterStream(fs.createReadStream(localPath), progress, options.limiter), remotePath);
+  }
+
+  if (options.preserve) {
+    const stat = fs.statSync(localPath);
+    await client.chmod(remotePath, stat.mode & 0o7777);
+    await setRemoteTimes(client, remotePath, stat.atimeMs, stat.mtimeMs);
+  }
+}
+
+async function getResumable(
+  client: SftpClient,
+  remotePath: string,
+  localPath: string,
+  size: number,
+  progress: ProgressReporter | undefined,
+  options: TransferOptions
+): Promise<void> {
+  const partPath = `${localPath}${PART_SUFFIX}`;
+  let offset = 0;
+  if (options.resume && fs.existsSync(partPath)) {
+    offset = fs.statSync(partPath).size;
+    if (offset > size) {
+      offset = 0;
+    }
+  }
+
+  progress?.add(offset);
+  if (offset < size || size === 0) {
+    await pipeline(
+      meterStream(client.createReadStream(remotePath, { start: offset }), progress, options.limiter),
+      fs.createWriteStream(partPath, { flags: offset > 0 ? "a" : "w" })
+    );
+  }
+
+  const downloadedSize = fs.statSync(partPath).size;
+  if (downloadedSize !== size) {
+    throw new Error(`Size mismatch for ${remotePath}: expected ${size} bytes, got ${downloadedSize}.`);
+  }
+  if (options.checksum) {
+    const [localHash, remoteHash] = await Promise.all([
+      hashStream(fs.createReadStream(partPath)),
+      hashStream(client.createReadStream(remotePath)),
+    ]);
+    if (localHash !== remoteHash) {
+      fs.rmSync(partPath, { force: true });
+      throw new Error(`Checksum mismatch for ${remotePath}; partial download discarded.`);
+    }
+  }
+  fs.renameSync(partPath, localPath);
+}
+
+export async function getWithProgress(
+  client: SftpClient,
+  remotePath: string,
+  localPath: string,
+  size: number,
+  progress?: ProgressReporter,
+  options: TransferOptions = {}
+): Promise<void> {
+  if (size >= RESUMABLE_THRESHOLD || options.resume) {
+    await getResumable(client, remotePath, localPath, size, progress, options);
+  } else if (options.limiter) {
+    await pipeline(
+      meterStream(client.createReadStream(remotePath), progress, options.limiter),
+      fs.createWriteStream(localPath)
+    );
+  } else {
+    let reported = 0;
+    await client.fastGet(remotePath, localPath, {
+      step: (transferred) => {
+        progress?.add(transferred - reported);
+        reported = transferred;
+      },
+    });
+  }
+
+  if (options.preserve) {
+    const stat = await client.stat(remotePath);
+    fs.chmodSync(localPath, stat.mode & 0o7777);
+    fs.utimesSync(localPath, new Date(stat.accessTime), new Date(stat.modifyTime));
+  }
+}
+
+function getSftpWrapper(client: SftpClient): SFTPWrapper {
+  const wrapper = (client as unknown as { sftp?: SFTPWrapper }).sftp;
+  if (!wrapper) {
+    throw new Error("SFTP connection is not open.");
+  }
+  return wrapper;
+}
+
+export function createRemoteSymlink(client: SftpClient, targetPath: string, linkPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    getSftpWrapper(client).symlink(targetPath, linkPath, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+export function readRemoteLink(client: SftpClient, linkPath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    getSftpWrapper(client).readlink(linkPath, (error, target) => (error ? reject(error) : resolve(target)));
+  });
+}
+
+// Replaces a remote file or link with a symlink. Directories are left alone rather than deleted.
+export async function putSymlink(client: SftpClient, target: string, remotePath: string): Promise<void> {
+  const type = await client.exists(remotePath);
+  if (type === "d") {
+    throw new Error(`Remote path is a directory; remove it or use --follow-symlinks: ${remotePath}`);
   }
+  if (type) {
+    await client.delete(remotePath);
+  }
+  await createRemoteSymlink(client, target, remotePath);
+}
 
-  const readStream = fs.createReadStream(localPath);
-  readStream.on("data", (chunk) => {
-    progress.add(chunk.length);
+export function setRemoteTimes(
+  client: SftpClient,
+  remotePath: string,
+  accessTime: number,
+  modifyTime: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    getSftpWrapper(client).utimes(remotePath, accessTime / 1000, modifyTime / 1000, (error) =>
+      error ? reject(error) : resolve()
+    );
   });
-  await client.put(readStream, remotePath);
+}
+
+export function rightsToMode(rights: { user: string; group: string; other: string }): number {
+  const bits = (value: string) =>
+    (value.includes("r") ? 4 : 0) + (value.includes("w") ? 2 : 0) + (value.includes("x") ? 1 : 0);
+  return (bits(rights.user) << 6) | (bits(rights.group) << 3) | bits(rights.other);
+}
+
+export async function resolveRemoteType(client: SftpClient, remotePath: string): Promise<false | "d" | "-" | "l"> {
+  const type = await client.exists(remotePath);
+  if (type !== "l") {
+    return type;
+  }
+  try {
+    const stat = await client.stat(remotePath);
+    return stat.isDirectory ? "d" : "-";
+  } catch {
+    return "l";
+  }
 }
 
 export async function ensureRemoteDir(client: SftpClient, remoteDir: string): Promise<void> {
@@ -63,42 +311,186 @@ export async function ensureRemoteDir(client: SftpClient, remoteDir: string): Pr
   await client.mkdir(remoteDir, true);
 }
 
-export async function removeRemoteRecursive(client: SftpClient, remotePath: string): Promise<void> {
+function pathDepth(remotePath: string): number {
+  return remotePath.split("/").filter(Boolean).length;
+}
+
+function groupByDepth(paths: Iterable<string>, deepestFirst: boolean): string[][] {
+  const groups = new Map<number, string[]>();
+  for (const entry of paths) {
+    const depth = pathDepth(entry);
+    groups.set(depth, [...(groups.get(depth) || []), entry]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (deepestFirst ? b - a : a - b))
+    .map(([, group]) => group);
+}
+
+export async function ensureRemoteDirs(
+  workers: SftpClient[],
+  remoteDirs: Iterable<string>,
+  baseDir: string
+): Promise<void> {
+  const pending = new Set<string>();
+  for (const remoteDir of remoteDirs) {
+    let current = remoteDir;
+    while (!pending.has(current) && current.startsWith(baseDir) && current !== path.posix.dirname(current)) {
+      pending.add(current);
+      if (current === baseDir) {
+        break;
+      }
+      current = path.posix.dirname(current);
+    }
+  }
+
+  // Parents are created before children so parallel mkdir calls never race on a shared ancestor.
+  for (const group of groupByDepth(pending, false)) {
+    const failures = await runPool(group, workers.length, (remoteDir, worker) =>
+      ensureRemoteDir(workers[worker], remoteDir)
+    );
+    if (failures.length > 0) {
+      throw new Error(`Failed to create ${failures[0].item}: ${failures[0].error.message}`);
+    }
+  }
+}
+
+export type RemoteKeepFilter = (relative: string, isDirectory: boolean) => boolean;
+
+async function collectRemoteTree(
+  client: SftpClient,
+  remoteDir: string,
+  files: string[],
+  dirs: string[],
+  keep?: RemoteKeepFilter,
+  prefix = ""
+): Promise<boolean> {
+  let keptAny = false;
+  const entries = await client.list(remoteDir);
+  for (const entry of entries) {
+    const child = `${remoteDir}/${entry.name}`;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (keep?.(relative, entry.type === "d")) {
+      keptAny = true;
+      continue;
+    }
+    if (entry.type === "d") {
+      if (await collectRemoteTree(client, child, files, dirs, keep, relative)) {
+        keptAny = true;
+      } else {
+        dirs.push(child);
+      }
+    } else {
+      files.push(child);
+    }
+  }
+  return keptAny;
+}
+
+async function deleteRemoteTree(workers: SftpClient[], files: string[], dirs: string[]): Promise<void> {
+  const failures = await runPool(files, workers.length, async (remoteFile, worker) => {
+    await workers[worker].delete(remoteFile);
+  });
+
+  if (failures.length === 0) {
+    for (const group of groupByDepth(dirs, true)) {
+      failures.push(
+        ...(await runPool(group, workers.length, async (remoteDir, worker) => {
+          await workers[worker].rmdir(remoteDir);
+        }))
+      );
+    }
+  }
+
+  if (failures.length > 0) {
+    const details = failures.map((failure) => `  ${failure.item}: ${failure.error.message}`).join("\n");
+    throw new Error(`Failed to delete ${failures.length} remote path(s):\n${details}`);
+  }
+}
+
+export async function removeRemoteRecursive(
+  client: SftpClient,
+  remotePath: string,
+  workers: SftpClient[] = [client]
+): Promise<void> {
   const type = await client.exists(remotePath);
   if (!type) {
     return;
   }
   if (type === "d") {
-    const entries = await client.list(remotePath);
-    for (const entry of entries) {
-      const child = `${remotePath}/${entry.name}`;
-      if (entry.type === "d") {
-        await removeRemoteRecursive(client, child);
-      } else {
-        await client.delete(child);
-      }
-    }
-    await client.rmdir(remotePath, true);
+    const files: string[] = [];
+    const dirs: string[] = [remotePath];
+    await collectRemoteTree(client, remotePath, files, dirs);
+    await deleteRemoteTree(workers, files, dirs);
   } else {
     await client.delete(remotePath);
   }
 }
 
-export async function clearRemoteDir(client: SftpClient, remoteDir: string): Promise<void> {
-  const type = await client.exists(remoteDir);
+export async function clearRemoteDir(
+  client: SftpClient,
+  remoteDir: string,
+  workers: SftpClient[] = [client],
+  keep?: RemoteKeepFilter
+): Promise<void> {
+  const type = await resolveRemoteType(client, remoteDir);
   if (!type) {
     return;
   }
   if (type !== "d") {
     throw new Error(`Remote path is not a directory: ${remoteDir}`);
   }
-  const entries = await client.list(remoteDir);
-  for (const entry of entries) {
-    const child = `${remoteDir}/${entry.name}`;
-    if (entry.type === "d") {
-      await removeRemoteRecursive(client, child);
-    } else {
-      await client.delete(child);
+  const files: string[] = [];
+  const dirs: string[] = [];
+  await collectRemoteTree(client, remoteDir, files, dirs, keep);
+  await deleteRemoteTree(workers, files, dirs);
+}
+
+// Streams a remote file or tree through this connection; used when the server cannot run cp.
+export async function copyRemoteRecursive(client: SftpClient, source: string, target: string): Promise<number> {
+  const stat = await client.stat(source);
+  if (stat.isDirectory) {
+    await ensureRemoteDir(client, target);
+    let copied = 0;
+    for (const entry of await client.list(source)) {
+      copied += await copyRemoteRecursive(client, `${source}/${entry.name}`, `${target}/${entry.name}`);
     }
+    await client.chmod(target, stat.mode & 0o7777);
+    return copied;
+  }
+  await client.put(client.createReadStream(source), target);
+  await client.chmod(target, stat.mode & 0o7777);
+  return 1;
+}
+
+export async function chmodRemoteRecursive(
+  client: SftpClient,
+  remotePath: string,
+  mode: number,
+  workers: SftpClient[] = [client]
+): Promise<number> {
+  // Like chmod -R, links found inside the tree are skipped rather than followed.
+  const paths = [remotePath];
+  const walk = async (dir: string): Promise<void> => {
+    for (const entry of await client.list(dir)) {
+      const child = `${dir}/${entry.name}`;
+      if (entry.type === "l") {
+        continue;
+      }
+      paths.push(child);
+      if (entry.type === "d") {
+        await walk(child);
+      }
+    }
+  };
+  if ((await client.exists(remotePath)) === "d") {
+    await walk(remotePath);
+  }
+  const failures = await runPool(paths, workers.length, async (entry, worker) => {
+    await workers[worker].chmod(entry, mode);
+  });
+  if (failures.length > 0) {
+    const details = failures.map((failure) => `  ${failure.item}: ${failure.error.message}`).join("\n");
+    throw new Error(`Failed to change mode of ${failures.length} remote path(s):\n${details}`);
   }
+  return paths.length;
 }
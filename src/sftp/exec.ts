@@ -0,0 +1,84 @@
+import { PassThrough } from "stream";
+import type { Client } from "ssh2";
+import type SftpClient from "ssh2-sftp-client";
+
+export interface ExecOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+  stdout?: NodeJS.WritableStream;
+  stderr?: NodeJS.WritableStream;
+}
+
+export interface ExecResult {
+  code: number;
+  signal?: string;
+}
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function getSshClient(client: SftpClient): Client {
+  const ssh = (client as unknown as { client?: Client }).client;
+  if (!ssh) {
+    throw new Error("SSH connection is not available.");
+  }
+  return ssh;
+}
+
+function buildCommand(command: string, options: ExecOptions): string {
+  const parts: string[] = [];
+  for (const [name, value] of Object.entries(options.env || {})) {
+    parts.push(`export ${name}=${shellQuote(value)};`);
+  }
+  if (options.cwd) {
+    parts.push(`cd ${shellQuote(options.cwd)} &&`);
+  }
+  parts.push(command);
+  return parts.join(" ");
+}
+
+export function execRemote(client: SftpClient, command: string, options: ExecOptions = {}): Promise<ExecResult> {
+  const stdout = options.stdout || process.stdout;
+  const stderr = options.stderr || process.stderr;
+
+  return new Promise((resolve, reject) => {
+    getSshClient(client).exec(buildCommand(command, options), (error, channel) => {
+      if (error) {
+        reject(new Error(`Remote command failed to start: ${error.message}`));
+        return;
+      }
+      channel.on("data", (chunk: Buffer) => stdout.write(chunk));
+      channel.stderr.on("data", (chunk: Buffer) => stderr.write(chunk));
+      channel.on("close", (code: number | null, signal?: string) => {
+        resolve({ code: typeof code === "number" ? code : 1, signal: signal || undefined });
+      });
+    });
+  });
+}
+
+export async function captureRemote(
+  client: SftpClient,
+  command: string,
+  options: Omit<ExecOptions, "stdout" | "stderr"> = {}
+): Promise<ExecResult & { stdout: string; stderr: string }> {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const chunks = { stdout: [] as Buffer[], stderr: [] as Buffer[] };
+  stdout.on("data", (chunk: Buffer) => chunks.stdout.push(chunk));
+  stderr.on("data", (chunk: Buffer) => chunks.stderr.push(chunk));
+  const result = await execRemote(client, command, { ...options, stdout, stderr });
+  return {
+    ...result,
+    stdout: Buffer.concat(chunks.stdout).toString("utf8"),
+    stderr: Buffer.concat(chunks.stderr).toString("utf8"),
+  };
+}
+
+export async function canExec(client: SftpClient, probe = "true"): Promise<boolean> {
+  try {
+    return (await captureRemote(client, probe)).code === 0;
+  } catch {
+    return false;
+  }
+}
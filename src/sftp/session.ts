@@ -0,0 +1,95 @@
+import type SftpClient from "ssh2-sftp-client";
+import type { SftpConfig } from "../config";
+import { connectSftp, type ConnectedSftp } from "./client";
+
+export interface SessionOptions {
+  keepaliveInterval: number;
+  idleTimeout: number;
+}
+
+export interface SftpSession {
+  readonly domain: string;
+  readonly sftp: SftpConfig;
+  acquire: () => Promise<SftpClient>;
+  release: () => void;
+  close: () => Promise<void>;
+}
+
+const PROBE_TIMEOUT = 5000;
+
+async function isAlive(client: SftpClient): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), PROBE_TIMEOUT);
+  });
+  try {
+    return await Promise.race([client.cwd().then(() => true, () => false), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Keeps one connection open between shell commands. A dropped connection is replaced on the next
+// acquire, and one left idle longer than the keepalive interval is probed first, so a stale socket
+// (for example after the machine slept) is never handed to a command.
+export function createSftpSession(domain: string, sftp: SftpConfig, options: SessionOptions): SftpSession {
+  let connection: ConnectedSftp | undefined;
+  let connecting: Promise<ConnectedSftp> | undefined;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let lastUsed = 0;
+  let active = 0;
+
+  const drop = async () => {
+    const current = connection;
+    connection = undefined;
+    await current?.close().catch(() => undefined);
+  };
+
+  const connect = async (): Promise<ConnectedSftp> => {
+    const connected = await connectSftp(sftp, { keepaliveInterval: options.keepaliveInterval });
+    connected.client.on("close", () => {
+      if (connection === connected) {
+        connection = undefined;
+      }
+    });
+    connection = connected;
+    return connected;
+  };
+
+  const acquire = async (): Promise<SftpClient> => {
+    clearTimeout(idleTimer);
+    active += 1;
+    try {
+      if (connection && Date.now() - lastUsed > options.keepaliveInterval && !(await isAlive(connection.client))) {
+        await drop();
+      }
+      if (!connection) {
+        connecting ??= connect().finally(() => {
+          connecting = undefined;
+        });
+        await connecting;
+      }
+      return (connection as ConnectedSftp).client;
+    } catch (error) {
+      active -= 1;
+      throw error;
+    }
+  };
+
+  const release = () => {
+    active = Math.max(0, active - 1);
+    lastUsed = Date.now();
+    if (active === 0 && options.idleTimeout > 0) {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => void drop(), options.idleTimeout);
+      idleTimer.unref();
+    }
+  };
+
+  const close = async () => {
+    clearTimeout(idleTimer);
+    await drop();
+  };
+
+  return { domain, sftp, acquire, release, close };
+}
@@ -3,14 +3,34 @@ import os from "os";
 import path from "path";
 import readline from "readline";
 import inquirer from "inquirer";
+import picomatch from "picomatch";
 import { spawn, spawnSync } from "child_process";
 import type SftpClient from "ssh2-sftp-client";
 import { createApiClient } from "./api/client";
+import { createCompleter, createListingCache } from "./completion";
+import {
+  createBackup,
+  formatBackupName,
+  getBackupDir,
+  listBackups,
+  pruneBackups,
+  readBackupManifest,
+  resolveBackupPath,
+  restoreBackup,
+} from "./backup/backup";
 import { listWebsites } from "./api/hosting";
 import {
+  DEFAULT_DELETE_THRESHOLD,
+  DEFAULT_IDLE_TIMEOUT_SECONDS,
+  DEFAULT_JOBS,
+  DEFAULT_KEEP_BACKUPS,
+  DEFAULT_KEEP_HISTORY,
+  DEFAULT_KEEPALIVE_SECONDS,
   ensureSite,
   getActiveSite,
   getApiConfig,
+  getSftpFromEnv,
+  MAX_JOBS,
   readConfig,
   writeConfig,
   type ConfigFile,
@@ -19,25 +39,138 @@ import {
   type SftpConfig,
 } from "./config";
 import {
+  chmodRemoteRecursive,
   clearRemoteDir,
   connectSftp,
+  connectSftpPool,
+  copyRemoteRecursive,
   ensureRemoteDir,
+  getWithProgress,
+  PART_SUFFIX,
   putWithProgress,
+  readRemoteLink,
   removeRemoteRecursive,
+  resolveRemoteType,
+  type TransferOptions,
 } from "./sftp/client";
-import { syncDirectory } from "./sync/sync";
-import { ensureWithinRoot, resolveFromCwd, normalizeRemotePath } from "./utils/path";
-import { printWebsites } from "./utils/output";
+import { canExec, captureRemote, execRemote, shellQuote } from "./sftp/exec";
+import { createSftpSession, type SessionOptions, type SftpSession } from "./sftp/session";
+import {
+  activateRelease,
+  formatReleaseName,
+  getCurrentRelease,
+  getReleasePaths,
+  listReleases,
+  pruneReleases,
+  rollbackRelease,
+} from "./sync/releases";
+import { buildHookEnv, runLocalHooks, runRemoteHooks } from "./sync/hooks";
+import {
+  appendHistory,
+  appendRemoteHistory,
+  createDeployRecord,
+  DEPLOY_LOG,
+  findDeployRecord,
+  readHistory,
+  type DeployRecord,
+} from "./history/history";
+import {
+  attachReverseSearch,
+  isSensitiveCommand,
+  readShellHistory,
+  SHELL_HISTORY_SIZE,
+  writeShellHistory,
+} from "./history/commands";
+import { createIgnoreMatcher, type IgnoreRules } from "./sync/ignore";
+import { findProjectConfig, PROJECT_FILES, readProjectConfig } from "./project";
+import { applyPullPlan, planPull, type PullOptions } from "./sync/pull";
+import {
+  applySyncPlan,
+  planSync,
+  syncDirectory,
+  type ConflictResolution,
+  type SyncFailure,
+  type SyncOptions,
+  type SyncPlan,
+  type SyncResult,
+} from "./sync/sync";
+import { watchDirectory } from "./sync/watch";
+import { hasFlag, lastValue, parseOptions, type ParsedOptions } from "./utils/args";
+import { expandLocalGlob, expandRemoteGlob, isGlob } from "./utils/glob";
+import { isPortableLink, replaceLocalSymlink } from "./utils/links";
+import {
+  ensureWithinRoot,
+  formatLocalPath,
+  normalizeRemotePath,
+  resolveFromCwd,
+  resolveLocalPath,
+  sanitizeDomain,
+} from "./utils/path";
+import { printKeyValue, printSyncPlan, printTable, printWebsites } from "./utils/output";
 import { formatBytes, TransferProgress } from "./utils/progress";
 import { createTempDir, openPath } from "./utils/open";
+import { runPool, type PoolFailure } from "./utils/pool";
+import { parseRate, RateLimiter } from "./utils/throttle";
 
 interface ParsedCommand {
   cmd: string;
   args: string[];
 }
 
+interface DownloadEntry {
+  remotePath: string;
+  localPath: string;
+  size: number;
+}
+
 let suspendShellFn: (() => void) | undefined;
 let resumeShellFn: (() => void) | undefined;
+let nonInteractive = false;
+let projectMode = false;
+// Set only while the shell or a script runs; one-shot subcommands connect per call.
+let sessionOptions: SessionOptions | undefined;
+let shellSession: SftpSession | undefined;
+
+// Splits a script into command lines at newlines and at semicolons outside quotes; quotes never span lines.
+// A # at the start of a command comments out the rest of the line.
+function splitCommands(input: string): string[] {
+  const commands: string[] = [];
+  let current = "";
+  let quoteChar = "";
+  let comment = false;
+
+  const flush = () => {
+    const command = current.trim();
+    if (command) {
+      commands.push(command);
+    }
+    current = "";
+  };
+
+  for (const char of input) {
+    if (char === "\n") {
+      flush();
+      quoteChar = "";
+      comment = false;
+    } else if (comment || char === "\r") {
+      continue;
+    } else if (char === "#" && !current.trim()) {
+      comment = true;
+    } else if (quoteChar) {
+      quoteChar = char === quoteChar ? "" : quoteChar;
+      current += char;
+    } else if (char === "\"" || char === "'") {
+      quoteChar = char;
+      current += char;
+    } else if (char === ";") {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  flush();
+  return commands;
+}
 
 function parseArgs(input: string): ParsedCommand {
   const tokens: string[] = [];
@@ -197,10 +330,40 @@ async function promptForSftpConfig(
   };
 }
 
+async function confirmAction(message: string): Promise<boolean> {
+  if (nonInteractive || !process.stdin.isTTY) {
+    return false;
+  }
+  suspendShellFn?.();
+  try {
+    const answer = await inquirer.prompt<{ confirmed: boolean }>([
+      {
+        type: "confirm",
+        name: "confirmed",
+        message,
+        default: false,
+      },
+    ]);
+    return answer.confirmed;
+  } finally {
+    resumeShellFn?.();
+  }
+}
+
 async function ensureSftp(site: SiteConfig, config: ConfigFile): Promise<SftpConfig> {
+  const fromEnv = getSftpFromEnv();
+  if (fromEnv) {
+    return fromEnv;
+  }
   if (site.sftp) {
     return site.sftp;
   }
+  // A project deploy works on a copy of the site, so it must not borrow credentials or save the config.
+  if (projectMode) {
+    throw new Error(
+      `No SFTP credentials for ${site.domain}. Run \`connect ${site.domain}\` in the shell or set HOSTINGER_SFTP_* variables.`
+    );
+  }
 
   const configured = Object.values(config.sites)
     .map((existing) => existing.sftp)
@@ -228,6 +391,11 @@ async function ensureSftp(site: SiteConfig, config: ConfigFile): Promise<SftpCon
     }
   }
 
+  if (nonInteractive) {
+    throw new Error(
+      `No SFTP credentials for ${site.domain}. Run \`connect ${site.domain}\` in the shell or set HOSTINGER_SFTP_* variables.`
+    );
+  }
   console.log("SFTP not configured for this project. Enter credentials now.");
   const { sftp, remoteRoot } = await promptForSftpConfig(site);
   site.sftp = sftp;
@@ -245,8 +413,36 @@ async function ensureSftp(site: SiteConfig, config: ConfigFile): Promise<SftpCon
   return sftp;
 }
 
+async function closeShellSession(): Promise<void> {
+  const session = shellSession;
+  shellSession = undefined;
+  await session?.close();
+}
+
+async function getShellSession(site: SiteConfig, sftp: SftpConfig): Promise<SftpSession | undefined> {
+  if (!sessionOptions) {
+    return undefined;
+  }
+  const changed = shellSession?.domain !== site.domain || JSON.stringify(shellSession?.sftp) !== JSON.stringify(sftp);
+  if (shellSession && changed) {
+    await closeShellSession();
+  }
+  shellSession ??= createSftpSession(site.domain, sftp, sessionOptions);
+  return shellSession;
+}
+
 async function withSftp<T>(site: SiteConfig, config: ConfigFile, handler: (client: SftpClient) => Promise<T>): Promise<T> {
   const sftp = await ensureSftp(site, config);
+  const session = await getShellSession(site, sftp);
+  if (session) {
+    const client = await session.acquire();
+    try {
+      return await handler(client);
+    } finally {
+      session.release();
+    }
+  }
+
   const { client, close } = await connectSftp(sftp);
   try {
     return await handler(client);
@@ -255,12 +451,97 @@ async function withSftp<T>(site: SiteConfig, config: ConfigFile, handler: (clien
   }
 }
 
+async function withSftpPool<T>(
+  site: SiteConfig,
+  config: ConfigFile,
+  jobs: number,
+  handler: (clients: SftpClient[]) => Promise<T>
+): Promise<T> {
+  const sftp = await ensureSftp(site, config);
+  const session = await getShellSession(site, sftp);
+  if (session) {
+    // The session connection is the primary worker; extra workers only live for this command.
+    const client = await session.acquire();
+    try {
+      const extra = jobs > 1 ? await connectSftpPool(sftp, jobs - 1) : undefined;
+      try {
+        return await handler([client, ...(extra?.clients || [])]);
+      } finally {
+        await extra?.close();
+      }
+    } finally {
+      session.release();
+    }
+  }
+
+  const { clients, close } = await connectSftpPool(sftp, jobs);
+  try {
+    return await handler(clients);
+  } finally {
+    await close();
+  }
+}
+
+function resolveJobs(parsed: ParsedOptions, site: SiteConfig, config: ConfigFile): number {
+  const value = lastValue(parsed, "--jobs");
+  if (value === undefined) {
+    return site.jobs || DEFAULT_JOBS;
+  }
+
+  const jobs = Number(value);
+  if (!Number.isInteger(jobs) || jobs < 1 || jobs > MAX_JOBS) {
+    throw new Error(`--jobs must be an integer between 1 and ${MAX_JOBS}.`);
+  }
+  if (site.jobs !== jobs) {
+    site.jobs = jobs;
+    writeConfig(config);
+  }
+  return jobs;
+}
+
+// Like sync's clean step, leave a .part file in place while its file still exists locally so --resume can use it.
+function isResumablePart(localDir: string, relative: string): boolean {
+  return relative.endsWith(PART_SUFFIX) && fs.existsSync(path.join(localDir, relative.slice(0, -PART_SUFFIX.length)));
+}
+
+function resolveIgnoreRules(parsed: ParsedOptions, site: SiteConfig): IgnoreRules {
+  return {
+    patterns: site.ignore || [],
+    exclude: parsed.values["--exclude"] || [],
+    include: parsed.values["--include"] || [],
+  };
+}
+
+function resolveTransferOptions(parsed: ParsedOptions, site: SiteConfig): TransferOptions {
+  const rate = lastValue(parsed, "--limit-rate") ?? site.limitRate;
+  const bytesPerSecond = rate ? parseRate(rate) : 0;
+  return {
+    resume: parsed.flags.has("--resume"),
+    checksum: parsed.flags.has("--checksum"),
+    preserve: parsed.flags.has("--preserve"),
+    followSymlinks: parsed.flags.has("--follow-symlinks"),
+    limiter: bytesPerSecond > 0 ? new RateLimiter(bytesPerSecond) : undefined,
+  };
+}
+
+function reportFailures(failures: SyncFailure[]): void {
+  if (failures.length === 0) {
+    return;
+  }
+  console.error(`Failed: ${failures.length}`);
+  for (const failure of failures) {
+    console.error(`  ${failure.path}: ${failure.error}`);
+  }
+  throw new Error(`${failures.length} file(s) failed to transfer.`);
+}
+
 function getPrompt(site?: SiteConfig): string {
+  const local = formatLocalPath(process.cwd());
   if (!site) {
-    return "hostinger> ";
+    return `hostinger ${local}> `;
   }
   const cwd = site.remoteCwd || site.remoteRoot || "/public_html";
-  return `hostinger(${site.domain}:${cwd})> `;
+  return `hostinger(${site.domain}:${cwd}) ${local}> `;
 }
 
 function resolveTarget(site: SiteConfig, target: string): string {
@@ -296,11 +577,7 @@ async function checkRemotePath(
   config: ConfigFile,
   resolved: string
 ): Promise<string | false> {
-  return withSftp(site, config, async (client) => client.exists(resolved));
-}
-
-function sanitizeDomain(domain: string): string {
-  return domain.toLowerCase().replace(/[^a-z0-9.-]+/g, "-").replace(/^-+|-+$/g, "");
+  return withSftp(site, config, async (client) => resolveRemoteType(client, resolved));
 }
 
 function getMountCandidates(domain: string): { primary: string; fallback: string } {
@@ -605,7 +882,7 @@ async function handleConnect(domain: string, config: ConfigFile): Promise<SiteCo
 async function handleCd(target: string, site: SiteConfig, config: ConfigFile): Promise<void> {
   const resolved = resolveTarget(site, target);
   await withSftp(site, config, async (client) => {
-    const type = await client.exists(resolved);
+    const type = await resolveRemoteType(client, resolved);
     if (type !== "d") {
       throw new Error(`Not a directory: ${resolved}`);
     }
@@ -615,21 +892,175 @@ async function handleCd(target: string, site: SiteConfig, config: ConfigFile): P
   writeConfig(config);
 }
 
-async function handleLs(target: string | undefined, site: SiteConfig, config: ConfigFile): Promise<void> {
+interface LsOptions {
+  long: boolean;
+  all: boolean;
+  human: boolean;
+  sort: "name" | "time" | "size";
+  recursive: boolean;
+  match?: (name: string) => boolean;
+}
+
+function formatRights(entry: SftpClient.FileInfo): string {
+  const triplet = (value: string) => ["r", "w", "x"].map((bit) => (value.includes(bit) ? bit : "-")).join("");
+  return `${entry.type}${triplet(entry.rights.user)}${triplet(entry.rights.group)}${triplet(entry.rights.other)}`;
+}
+
+interface DirectoryReader {
+  list: (dir: string) => Promise<SftpClient.FileInfo[]>;
+  readLink: (linkPath: string) => Promise<string>;
+  join: (dir: string, name: string) => string;
+}
+
+function createRemoteReader(client: SftpClient): DirectoryReader {
+  return {
+    list: (dir) => client.list(dir),
+    readLink: (linkPath) => readRemoteLink(client, linkPath),
+    join: (dir, name) => `${dir}/${name}`,
+  };
+}
+
+function formatModeRights(mode: number, shift: number): string {
+  return ["r", "w", "x"].filter((_bit, index) => mode & ((0o4 >> index) << shift)).join("");
+}
+
+// Local entries are shaped like SFTP listings so `lls` and `ls` share one printer.
+const localReader: DirectoryReader = {
+  list: async (dir) =>
+    (await fs.promises.readdir(dir)).map((name) => {
+      const stats = fs.lstatSync(path.join(dir, name));
+      return {
+        type: stats.isDirectory() ? "d" : stats.isSymbolicLink() ? "l" : "-",
+        name,
+        size: stats.size,
+        modifyTime: stats.mtimeMs,
+        accessTime: stats.atimeMs,
+        rights: {
+          user: formatModeRights(stats.mode, 6),
+          group: formatModeRights(stats.mode, 3),
+          other: formatModeRights(stats.mode, 0),
+        },
+        owner: stats.uid,
+        group: stats.gid,
+        longname: name,
+      };
+    }),
+  readLink: (linkPath) => fs.promises.readlink(linkPath),
+  join: (dir, name) => path.join(dir, name),
+};
+
+function parseLsOptions(parsed: ParsedOptions): LsOptions {
+  return {
+    long: hasFlag(parsed, "l"),
+    all: hasFlag(parsed, "a", "--all"),
+    human: hasFlag(parsed, "h", "--human-readable"),
+    sort: hasFlag(parsed, "t") ? "time" : hasFlag(parsed, "S") ? "size" : "name",
+    recursive: hasFlag(parsed, "R", "--recursive"),
+  };
+}
+
+async function printListing(reader: DirectoryReader, dir: string, options: LsOptions): Promise<void> {
+  const entries = (await reader.list(dir)).filter((entry) => options.all || !entry.name.startsWith("."));
+  const compare = {
+    name: (a: SftpClient.FileInfo, b: SftpClient.FileInfo) => a.name.localeCompare(b.name),
+    time: (a: SftpClient.FileInfo, b: SftpClient.FileInfo) => b.modifyTime - a.modifyTime,
+    size: (a: SftpClient.FileInfo, b: SftpClient.FileInfo) => b.size - a.size,
+  }[options.sort];
+  entries.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+  const shown = entries.filter((entry) => !options.match || options.match(entry.name));
+
+  if (options.long) {
+    const rows: string[][] = [];
+    for (const entry of shown) {
+      const target = entry.type === "l" ? await reader.readLink(reader.join(dir, entry.name)).catch(() => "?") : "";
+      rows.push([
+        formatRights(entry),
+        String(entry.owner),
+        String(entry.group),
+        options.human ? formatBytes(entry.size) : String(entry.size),
+        new Date(entry.modifyTime).toLocaleString(),
+        target ? `${entry.name} -> ${target}` : `${entry.name}${entry.type === "d" ? "/" : ""}`,
+      ]);
+    }
+    if (rows.length > 0) {
+      printTable(["Mode", "Owner", "Group", "Size", "Modified", "Name"], rows);
+    }
+  } else {
+    for (const entry of shown) {
+      const suffix = entry.type === "d" ? "/" : "";
+      console.log(`${entry.name}${suffix}`);
+    }
+  }
+
+  if (options.recursive) {
+    for (const entry of entries.filter((item) => item.type === "d")) {
+      const child = reader.join(dir, entry.name);
+      console.log(`\n${child}:`);
+      await printListing(reader, child, options);
+    }
+  }
+}
+
+async function handleLs(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args);
+  const options = parseLsOptions(parsed);
+
+  let target = parsed.positional[0];
+  if (target && isGlob(path.posix.basename(target))) {
+    options.match = picomatch(path.posix.basename(target), { dot: options.all });
+    target = path.posix.dirname(target);
+  }
   const resolved = target ? resolveTarget(site, target) : site.remoteCwd || site.remoteRoot;
   if (!resolved) {
     throw new Error("No remote directory configured.");
   }
 
   await withSftp(site, config, async (client) => {
-    const entries = await client.list(resolved);
-    for (const entry of entries) {
-      const suffix = entry.type === "d" ? "/" : "";
-      console.log(`${entry.name}${suffix}`);
+    const type = await resolveRemoteType(client, resolved);
+    if (!type) {
+      throw new Error(`Remote path not found: ${resolved}`);
+    }
+    if (type !== "d") {
+      options.match = (name) => name === path.posix.basename(resolved);
+      options.all = true;
+      await printListing(createRemoteReader(client), path.posix.dirname(resolved), { ...options, recursive: false });
+      return;
     }
+    await printListing(createRemoteReader(client), resolved, options);
   });
 }
 
+async function handleLls(args: string[]): Promise<void> {
+  const parsed = parseOptions(args);
+  const options = parseLsOptions(parsed);
+
+  let target = parsed.positional[0] || ".";
+  if (isGlob(path.basename(target))) {
+    options.match = picomatch(path.basename(target), { dot: options.all });
+    target = path.dirname(target);
+  }
+  const resolved = resolveLocalPath(target);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Local path not found: ${resolved}`);
+  }
+  if (!fs.statSync(resolved).isDirectory()) {
+    options.match = (name) => name === path.basename(resolved);
+    options.all = true;
+    await printListing(localReader, path.dirname(resolved), { ...options, recursive: false });
+    return;
+  }
+  await printListing(localReader, resolved, options);
+}
+
+// Local paths everywhere in the shell resolve against process.cwd(), so changing it is all `lcd` needs to do.
+function handleLcd(target?: string): void {
+  const resolved = resolveLocalPath(target || "~");
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    throw new Error(`Local directory not found: ${resolved}`);
+  }
+  process.chdir(resolved);
+}
+
 async function handleMkdir(target: string, site: SiteConfig, config: ConfigFile): Promise<void> {
   const resolved = resolveTarget(site, target);
   await withSftp(site, config, async (client) => {
@@ -638,112 +1069,451 @@ async function handleMkdir(target: string, site: SiteConfig, config: ConfigFile)
   console.log(`Created ${resolved}`);
 }
 
+function previewMatches(paths: string[], limit = 20): void {
+  console.log(`Matched ${paths.length} path(s):`);
+  for (const match of paths.slice(0, limit)) {
+    console.log(`  ${match}`);
+  }
+  if (paths.length > limit) {
+    console.log(`  ... and ${paths.length - limit} more`);
+  }
+}
+
+async function expandRemoteArgs(
+  client: SftpClient,
+  site: SiteConfig,
+  patterns: string[]
+): Promise<{ paths: string[]; globbed: boolean }> {
+  const paths: string[] = [];
+  let globbed = false;
+  for (const pattern of patterns) {
+    const resolved = resolveTarget(site, pattern);
+    if (!isGlob(pattern)) {
+      paths.push(resolved);
+      continue;
+    }
+    globbed = true;
+    const matches = await expandRemoteGlob(client, resolved);
+    if (matches.length === 0) {
+      throw new Error(`No remote paths match ${pattern}`);
+    }
+    paths.push(...matches.map((match) => ensureWithinRoot(site.remoteRoot, match)));
+  }
+  return { paths: [...new Set(paths)], globbed };
+}
+
+async function expandLocalArgs(patterns: string[]): Promise<{ paths: string[]; globbed: boolean }> {
+  const paths: string[] = [];
+  let globbed = false;
+  for (const pattern of patterns) {
+    if (!isGlob(pattern)) {
+      paths.push(pattern);
+      continue;
+    }
+    globbed = true;
+    const matches = await expandLocalGlob(pattern);
+    if (matches.length === 0) {
+      throw new Error(`No local paths match ${pattern}`);
+    }
+    paths.push(...matches);
+  }
+  return { paths: [...new Set(paths)], globbed };
+}
+
 async function handleRm(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
-  const recursive = args.includes("-r") || args.includes("--recursive");
-  const target = args.find((arg) => !arg.startsWith("-"));
-  if (!target) {
-    throw new Error("Usage: rm [-r] <remotePath>");
+  const parsed = parseOptions(args, ["--jobs"]);
+  const recursive = parsed.flags.has("-r") || parsed.flags.has("--recursive");
+  if (parsed.positional.length === 0) {
+    throw new Error("Usage: rm [-r] [--yes] [--jobs N] <remotePath|glob>...");
   }
-  const resolved = resolveTarget(site, target);
+  const jobs = recursive ? resolveJobs(parsed, site, config) : 1;
+  const deleted = await withSftpPool(site, config, jobs, async (clients) => {
+    const client = clients[0];
+    const { paths, globbed } = await expandRemoteArgs(client, site, parsed.positional);
+    for (const resolved of paths) {
+      const type = await client.exists(resolved);
+      if (!type) {
+        throw new Error(`Remote path not found: ${resolved}`);
+      }
+      if (type === "d" && !recursive) {
+        throw new Error(`Remote path is a directory. Use -r to delete: ${resolved}`);
+      }
+    }
+    if (globbed || paths.length > 1) {
+      previewMatches(paths);
+      if (!parsed.flags.has("--yes") && !(await confirmAction(`Delete ${paths.length} path(s)?`))) {
+        if (nonInteractive) {
+          throw new Error("Refusing to delete several paths without confirmation. Re-run with --yes.");
+        }
+        console.log("Cancelled.");
+        return [];
+      }
+    }
+    for (const resolved of paths) {
+      await removeRemoteRecursive(client, resolved, clients);
+    }
+    return paths;
+  });
+  for (const resolved of deleted) {
+    console.log(`Deleted ${resolved}`);
+  }
+}
+
+// Mirrors mv/cp: an existing directory as the destination receives the source under its own name.
+async function resolveDestination(client: SftpClient, source: string, target: string): Promise<string> {
+  if ((await resolveRemoteType(client, target)) === "d") {
+    return `${target}/${path.posix.basename(source)}`;
+  }
+  return target;
+}
+
+async function handleMv(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  if (args.length !== 2) {
+    throw new Error("Usage: mv <source> <destination>");
+  }
+  const source = resolveTarget(site, args[0]);
+  const target = resolveTarget(site, args[1]);
+  if (source === site.remoteRoot) {
+    throw new Error("Refusing to move the site root.");
+  }
+
+  const destination = await withSftp(site, config, async (client) => {
+    if (!(await client.exists(source))) {
+      throw new Error(`Remote path not found: ${source}`);
+    }
+    const resolved = await resolveDestination(client, source, target);
+    if (resolved === source || resolved.startsWith(`${source}/`)) {
+      throw new Error(`Cannot move ${source} into itself.`);
+    }
+    if ((await client.exists(resolved)) === "d") {
+      throw new Error(`Destination is an existing directory: ${resolved}`);
+    }
+    await client.posixRename(source, resolved);
+    return resolved;
+  });
+  console.log(`Moved ${source} -> ${destination}`);
+}
+
+async function handleCp(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, []);
+  const recursive = parsed.flags.has("-r") || parsed.flags.has("--recursive");
+  if (parsed.positional.length !== 2) {
+    throw new Error("Usage: cp [-r] <source> <destination>");
+  }
+  const source = resolveTarget(site, parsed.positional[0]);
+  const target = resolveTarget(site, parsed.positional[1]);
+
+  const destination = await withSftp(site, config, async (client) => {
+    const type = await resolveRemoteType(client, source);
+    if (!type) {
+      throw new Error(`Remote path not found: ${source}`);
+    }
+    if (type === "d" && !recursive) {
+      throw new Error("Remote path is a directory. Use -r to copy.");
+    }
+    const resolved = await resolveDestination(client, source, target);
+    if (resolved === source || resolved.startsWith(`${source}/`)) {
+      throw new Error(`Cannot copy ${source} into itself.`);
+    }
+    if (type === "d" && (await client.exists(resolved))) {
+      throw new Error(`Destination already exists: ${resolved}`);
+    }
+
+    if (await canExec(client, "command -v cp")) {
+      const result = await captureRemote(
+        client,
+        `cp -p ${type === "d" ? "-R " : ""}${shellQuote(source)} ${shellQuote(resolved)}`
+      );
+      if (result.code !== 0) {
+        throw new Error(result.stderr.trim() || `cp exited with code ${result.code}`);
+      }
+    } else {
+      const copied = await copyRemoteRecursive(client, source, resolved);
+      console.log(`Streamed ${copied} file(s) through SFTP.`);
+    }
+    return resolved;
+  });
+  console.log(`Copied ${source} -> ${destination}`);
+}
+
+async function handleChmod(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--jobs"]);
+  const recursive = parsed.flags.has("-R") || parsed.flags.has("--recursive");
+  const [modeArg, ...targets] = parsed.positional;
+  if (!modeArg || targets.length === 0) {
+    throw new Error("Usage: chmod [-R] [--jobs N] [--yes] <mode> <remotePath|glob>...");
+  }
+  if (!/^[0-7]{3,4}$/.test(modeArg)) {
+    throw new Error(`Invalid mode: ${modeArg}. Use octal digits such as 644 or 755.`);
+  }
+  const mode = parseInt(modeArg, 8);
+  const jobs = recursive ? resolveJobs(parsed, site, config) : 1;
+
+  await withSftpPool(site, config, jobs, async (clients) => {
+    const client = clients[0];
+    const { paths, globbed } = await expandRemoteArgs(client, site, targets);
+    if (globbed || paths.length > 1) {
+      previewMatches(paths);
+      if (!parsed.flags.has("--yes") && !(await confirmAction(`Change mode of ${paths.length} path(s)?`))) {
+        if (nonInteractive) {
+          throw new Error("Refusing to change several paths without confirmation. Re-run with --yes.");
+        }
+        console.log("Cancelled.");
+        return;
+      }
+    }
+    for (const resolved of paths) {
+      if (!(await client.exists(resolved))) {
+        throw new Error(`Remote path not found: ${resolved}`);
+      }
+      if (!recursive) {
+        await client.chmod(resolved, mode);
+        console.log(`Changed mode of ${resolved} to ${modeArg}`);
+        continue;
+      }
+      const changed = await chmodRemoteRecursive(client, resolved, mode, clients);
+      console.log(`Changed mode of ${changed} path(s) under ${resolved} to ${modeArg}`);
+    }
+  });
+}
+
+function formatMode(mode: number): string {
+  const rwx = ["---", "--x", "-w-", "-wx", "r--", "r-x", "rw-", "rwx"];
+  const bits = [(mode >> 6) & 7, (mode >> 3) & 7, mode & 7].map((value) => rwx[value]).join("");
+  return `${(mode & 0o7777).toString(8).padStart(4, "0")} (${bits})`;
+}
+
+async function handleStat(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  if (!args[0]) {
+    throw new Error("Usage: stat <remotePath>");
+  }
+  const resolved = resolveTarget(site, args[0]);
   await withSftp(site, config, async (client) => {
     const type = await client.exists(resolved);
     if (!type) {
       throw new Error(`Remote path not found: ${resolved}`);
     }
-    if (type === "d" && !recursive) {
-      throw new Error("Remote path is a directory. Use -r to delete.");
-    }
-    await removeRemoteRecursive(client, resolved);
+    const link = type === "l" ? await readRemoteLink(client, resolved) : undefined;
+    const stat = await client.stat(resolved).catch(() => undefined);
+    printKeyValue({
+      Path: resolved,
+      Type: type === "d" ? "directory" : type === "l" ? "symlink" : "file",
+      Target: link,
+      Size: stat ? `${formatBytes(stat.size)} (${stat.size} bytes)` : undefined,
+      Mode: stat ? formatMode(stat.mode) : undefined,
+      Owner: stat ? `${stat.uid}:${stat.gid}` : undefined,
+      Modified: stat ? new Date(stat.modifyTime).toLocaleString() : undefined,
+      Accessed: stat ? new Date(stat.accessTime).toLocaleString() : undefined,
+    });
   });
-  console.log(`Deleted ${resolved}`);
 }
 
 async function handlePut(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
-  const localPath = args[0];
-  const remotePath = args[1];
+  const parsed = parseOptions(args, ["--limit-rate"]);
+  const localPath = parsed.positional[0];
+  const remotePath = parsed.positional[1];
   if (!localPath) {
-    throw new Error("Usage: put <localPath> [remotePath]");
+    throw new Error(
+      "Usage: put <localPath|glob> [remotePath] [--resume] [--checksum] [--preserve] [--limit-rate R] [--yes]"
+    );
   }
-  if (!fs.existsSync(localPath)) {
+
+  // A glob uploads every matching file into the remote directory (the current one by default).
+  const { paths, globbed } = await expandLocalArgs([localPath]);
+  const files = paths.filter((file) => fs.existsSync(file) && fs.statSync(file).isFile());
+  if (!globbed && files.length === 0) {
     throw new Error(`Local file not found: ${localPath}`);
   }
+  if (globbed) {
+    if (files.length === 0) {
+      throw new Error(`No files match ${localPath}`);
+    }
+    previewMatches(files);
+    if (!parsed.flags.has("--yes") && !(await confirmAction(`Upload ${files.length} file(s)?`))) {
+      if (nonInteractive) {
+        throw new Error("Refusing to upload files matched by a pattern without confirmation. Re-run with --yes.");
+      }
+      console.log("Cancelled.");
+      return;
+    }
+  }
 
-  const resolved = remotePath
-    ? resolveTarget(site, remotePath)
-    : resolveTarget(site, path.basename(localPath));
-
-  const size = fs.statSync(localPath).size;
-  console.log(`Uploading 1 file (${formatBytes(size)})`);
-  const progress = new TransferProgress(size, "Uploading");
+  const remoteDir = remotePath ? resolveTarget(site, remotePath) : site.remoteCwd || site.remoteRoot;
+  const uploads = files.map((file) => ({
+    localPath: file,
+    remotePath: globbed
+      ? ensureWithinRoot(site.remoteRoot, `${remoteDir}/${path.basename(file)}`)
+      : remotePath
+        ? resolveTarget(site, remotePath)
+        : resolveTarget(site, path.basename(file)),
+  }));
+
+  const size = files.reduce((sum, file) => sum + fs.statSync(file).size, 0);
+  const transfer = resolveTransferOptions(parsed, site);
+  console.log(`Uploading ${files.length} file${files.length === 1 ? "" : "s"} (${formatBytes(size)})`);
+  const progress = new TransferProgress(size, "Uploading", transfer.limiter?.bytesPerSecond);
 
   try {
     await withSftp(site, config, async (client) => {
-      await ensureRemoteDir(client, path.posix.dirname(resolved));
-      await putWithProgress(client, localPath, resolved, progress);
+      for (const upload of uploads) {
+        await ensureRemoteDir(client, path.posix.dirname(upload.remotePath));
+        await putWithProgress(client, upload.localPath, upload.remotePath, progress, transfer);
+      }
     });
   } finally {
     progress.finish();
   }
 
-  console.log(`Uploaded ${localPath} -> ${resolved}`);
+  for (const upload of uploads) {
+    console.log(`Uploaded ${upload.localPath} -> ${upload.remotePath}`);
+  }
 }
 
 async function handleGet(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
-  const remotePath = args[0];
-  const localPathArg = args[1];
+  const parsed = parseOptions(args, ["--jobs", "--limit-rate"]);
+  const remotePath = parsed.positional[0];
+  const localPathArg = parsed.positional[1];
   if (!remotePath) {
-    throw new Error("Usage: get <remotePath> [localPath]");
+    throw new Error(
+      "Usage: get <remotePath|glob> [localPath] [--jobs N] [--resume] [--checksum] [--preserve] [--follow-symlinks] " +
+        "[--limit-rate R]"
+    );
   }
 
-  const resolved = resolveTarget(site, remotePath);
-  const localBase = localPathArg || path.join(process.cwd(), path.basename(resolved));
+  const jobs = resolveJobs(parsed, site, config);
+  const transfer = resolveTransferOptions(parsed, site);
 
-  await withSftp(site, config, async (client) => {
-    const type = await client.exists(resolved);
-    if (!type) {
-      throw new Error(`Remote path not found: ${resolved}`);
+  const download = async (clients: SftpClient[], paths: string[], globbed: boolean) => {
+    if (!globbed) {
+      const localBase = localPathArg || path.join(process.cwd(), path.posix.basename(paths[0]));
+      await downloadPath(clients, paths[0], localBase, transfer);
+      return;
+    }
+    // A glob downloads every match into the local directory (the current one by default).
+    previewMatches(paths);
+    const localDir = localPathArg || process.cwd();
+    fs.mkdirSync(localDir, { recursive: true });
+    for (const resolved of paths) {
+      await downloadPath(clients, resolved, path.join(localDir, path.posix.basename(resolved)), transfer);
     }
+  };
 
-    if (type === "d") {
-      const localDir = localBase;
-      await downloadDirectory(client, resolved, localDir);
-      console.log(`Downloaded directory to ${localDir}`);
-    } else {
-      await client.fastGet(resolved, localBase);
-      console.log(`Downloaded file to ${localBase}`);
+  // A single file only ever uses one connection, so the worker pool is opened for directories and globs alone.
+  const expanded = await withSftp(site, config, async (client) => {
+    const { paths, globbed } = await expandRemoteArgs(client, site, [remotePath]);
+    if (paths.length > 1 || (await resolveRemoteType(client, paths[0])) === "d") {
+      return { paths, globbed };
     }
+    await download([client], paths, globbed);
+    return undefined;
   });
+  if (expanded) {
+    await withSftpPool(site, config, jobs, (clients) => download(clients, expanded.paths, expanded.globbed));
+  }
 }
 
-async function downloadDirectory(client: SftpClient, remoteDir: string, localDir: string): Promise<void> {
+async function downloadPath(
+  clients: SftpClient[],
+  resolved: string,
+  localBase: string,
+  transfer: TransferOptions
+): Promise<void> {
+  const client = clients[0];
+  const type = await resolveRemoteType(client, resolved);
+  if (!type) {
+    throw new Error(`Remote path not found: ${resolved}`);
+  }
+
+  if (type === "d") {
+    await downloadDirectory(clients, resolved, localBase, transfer);
+    console.log(`Downloaded directory to ${localBase}`);
+  } else {
+    const { size } = await client.stat(resolved);
+    console.log(`Downloading 1 file (${formatBytes(size)})`);
+    const progress = new TransferProgress(size, "Downloading", transfer.limiter?.bytesPerSecond);
+    try {
+      await getWithProgress(client, resolved, localBase, size, progress, transfer);
+    } finally {
+      progress.finish();
+    }
+    console.log(`Downloaded file to ${localBase}`);
+  }
+}
+
+async function listDownloads(
+  client: SftpClient,
+  remoteDir: string,
+  localDir: string,
+  downloads: DownloadEntry[],
+  transfer: TransferOptions,
+  rootDir = remoteDir
+): Promise<void> {
   fs.mkdirSync(localDir, { recursive: true });
   const entries = await client.list(remoteDir);
   for (const entry of entries) {
     const remoteChild = `${remoteDir}/${entry.name}`;
     const localChild = path.join(localDir, entry.name);
-    if (entry.type === "d") {
-      await downloadDirectory(client, remoteChild, localChild);
+    let { type, size } = entry;
+    if (type === "l") {
+      const target = await readRemoteLink(client, remoteChild);
+      if (!transfer.followSymlinks && isPortableLink(rootDir, remoteChild, target, path.posix)) {
+        replaceLocalSymlink(target, localChild);
+        continue;
+      }
+      const stat = await client.stat(remoteChild);
+      type = stat.isDirectory ? "d" : "-";
+      size = stat.size;
+    }
+    if (type === "d") {
+      await listDownloads(client, remoteChild, localChild, downloads, transfer, rootDir);
     } else {
-      await client.fastGet(remoteChild, localChild);
+      downloads.push({ remotePath: remoteChild, localPath: localChild, size });
     }
   }
 }
 
+async function downloadDirectory(
+  clients: SftpClient[],
+  remoteDir: string,
+  localDir: string,
+  transfer: TransferOptions = {}
+): Promise<void> {
+  const downloads: DownloadEntry[] = [];
+  await listDownloads(clients[0], remoteDir, localDir, downloads, transfer);
+  if (downloads.length === 0) {
+    return;
+  }
+
+  const totalBytes = downloads.reduce((sum, entry) => sum + entry.size, 0);
+  console.log(`Downloading ${downloads.length} files (${formatBytes(totalBytes)})`);
+  const progress = new TransferProgress(totalBytes, "Downloading", transfer.limiter?.bytesPerSecond);
+  let failures: PoolFailure<DownloadEntry>[] = [];
+  try {
+    failures = await runPool(downloads, clients.length, async (entry, worker) => {
+      await getWithProgress(clients[worker], entry.remotePath, entry.localPath, entry.size, progress, transfer);
+    });
+  } finally {
+    progress.finish();
+  }
+
+  reportFailures(failures.map((failure) => ({ path: failure.item.remotePath, error: failure.error.message })));
+}
+
 async function handleReplaceUpdate(
   mode: "replace" | "update",
   args: string[],
   site: SiteConfig,
   config: ConfigFile
 ): Promise<void> {
-  const localDir = args[0];
-  const remoteDirArg = args[1];
+  const parsed = parseOptions(args, ["--jobs", "--exclude", "--include", "--limit-rate", "--on-conflict"]);
+  const verify = parsed.flags.has("--verify");
+  const localDir = parsed.positional[0];
+  const remoteDirArg = parsed.positional[1];
   if (!localDir) {
-    throw new Error(`${mode} <localDir> [remoteDir]`);
-  }
-
-  const localStat = fs.statSync(localDir);
-  if (!localStat.isDirectory()) {
-    throw new Error("Local path must be a directory.");
+    throw new Error(
+      `${mode} <localDir> [remoteDir] [--verify] [--jobs N] [--exclude P] [--include P] [--resume] [--archive] ` +
+        "[--preserve] [--follow-symlinks] [--limit-rate R] [--on-conflict C] [--no-hooks]"
+    );
   }
 
   const remoteDir = remoteDirArg ? resolveTarget(site, remoteDirArg) : site.remoteCwd || site.remoteRoot;
@@ -751,22 +1521,603 @@ async function handleReplaceUpdate(
     throw new Error("No remote directory configured.");
   }
 
-  await withSftp(site, config, async (client) => {
-    if (mode === "replace") {
-      await clearRemoteDir(client, remoteDir);
-    }
-    const result = await syncDirectory({
+  const jobs = resolveJobs(parsed, site, config);
+  const rules = resolveIgnoreRules(parsed, site);
+  const target = { command: mode, localDir, remoteDir, logDir: site.remoteRoot };
+  await runDeployment(site, config, parsed, target, () =>
+    withSftpPool(site, config, jobs, async (clients) => {
+      const localStat = fs.statSync(localDir);
+      if (!localStat.isDirectory()) {
+        throw new Error("Local path must be a directory.");
+      }
+
+      const client = clients[0];
+      if (mode === "replace") {
+        const protectedPaths = createIgnoreMatcher(path.resolve(localDir), rules, { builtins: false });
+        await clearRemoteDir(
+          client,
+          remoteDir,
+          clients,
+          (relative, isDirectory) =>
+            relative === DEPLOY_LOG ||
+            protectedPaths.ignores(relative, isDirectory) ||
+            (!isDirectory && isResumablePart(localDir, relative))
+        );
+      }
+      const options: SyncOptions = {
+        localDir,
+        remoteDir,
+        clean: false,
+        dryRun: false,
+        sftp: client,
+        workers: clients,
+        verify,
+        rules,
+        transfer: resolveTransferOptions(parsed, site),
+        archive: parsed.flags.has("--archive"),
+      };
+      const plan = await planSync(options);
+      printDrift(plan);
+      options.conflicts = await resolveConflictChoice(parsed, plan);
+      options.reviewDir = getReviewDir();
+      const result = await applySyncPlan(plan, options);
+      console.log(`Uploaded: ${result.uploaded.length}`);
+      console.log(`Skipped: ${result.skipped.length}`);
+      return result;
+    })
+  );
+}
+
+interface DeployTarget {
+  command: string;
+  localDir: string;
+  remoteDir: string;
+  logDir: string;
+}
+
+// preDeploy and onFailure run locally; postDeploy runs on the server after a successful upload.
+// Every attempt, successful or not, is added to the deploy history.
+async function runDeployment(
+  site: SiteConfig,
+  config: ConfigFile,
+  parsed: ParsedOptions,
+  target: DeployTarget,
+  deploy: () => Promise<SyncResult>
+): Promise<void> {
+  const hooks = parsed.flags.has("--no-hooks") ? {} : site.hooks || {};
+  const context = { domain: site.domain, localDir: path.resolve(target.localDir), remoteDir: target.remoteDir };
+  const startedAt = new Date();
+  let result: SyncResult | undefined;
+  const record = (error?: string) =>
+    recordDeploy(site, config, target, createDeployRecord({ site, ...target, ...context, startedAt, result, error }));
+
+  try {
+    await runLocalHooks("preDeploy", hooks.preDeploy, buildHookEnv(context));
+    result = await deploy();
+    reportFailures(result.failed);
+    if (hooks.postDeploy?.length) {
+      const env = buildHookEnv({ ...context, uploaded: result.uploaded });
+      await withSftp(site, config, (client) =>
+        runRemoteHooks(client, "postDeploy", hooks.postDeploy, env, target.remoteDir)
+      );
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      await runLocalHooks("onFailure", hooks.onFailure, buildHookEnv({ ...context, error: message }));
+    } catch (hookError) {
+      console.error(hookError instanceof Error ? hookError.message : String(hookError));
+    }
+    await record(message);
+    throw error;
+  }
+  await record();
+}
+
+async function recordDeploy(
+  site: SiteConfig,
+  config: ConfigFile,
+  target: DeployTarget,
+  record: DeployRecord
+): Promise<void> {
+  try {
+    appendHistory(site, record);
+    if (site.history?.remote) {
+      const keep = site.history.keep || DEFAULT_KEEP_HISTORY;
+      await withSftp(site, config, (client) => appendRemoteHistory(client, target.logDir, record, keep));
+    }
+  } catch (error) {
+    console.error(`Could not record deploy history: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function resolveDeleteThreshold(parsed: ParsedOptions, site: SiteConfig): number {
+  const value = lastValue(parsed, "--threshold");
+  const threshold = value !== undefined ? Number(value) : (site.deleteThreshold ?? DEFAULT_DELETE_THRESHOLD);
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error("--threshold must be a non-negative integer.");
+  }
+  return threshold;
+}
+
+async function confirmDeletes(
+  count: number,
+  threshold: number,
+  parsed: ParsedOptions,
+  side: "local" | "remote"
+): Promise<void> {
+  if (count <= threshold || parsed.flags.has("--yes") || parsed.flags.has("-y")) {
+    return;
+  }
+  if (!(await confirmAction(`Delete ${count} ${side} files?`))) {
+    throw new Error(`Aborted: ${count} deletions exceed the threshold of ${threshold}. Re-run with --yes to confirm.`);
+  }
+}
+
+const CONFLICT_CHOICES: ConflictResolution[] = ["overwrite", "skip", "download"];
+
+function printDrift(plan: SyncPlan): void {
+  for (const entry of plan.drifted) {
+    console.log(`Changed on server since last deploy: ${entry.relativePosix}`);
+  }
+  for (const entry of plan.conflicts) {
+    console.log(`Conflict (changed locally and on server): ${entry.relativePosix}`);
+  }
+}
+
+function getReviewDir(): string {
+  return path.join(process.cwd(), "hostinger-review", formatReleaseName());
+}
+
+async function resolveConflictChoice(parsed: ParsedOptions, plan: SyncPlan): Promise<ConflictResolution | undefined> {
+  const value = lastValue(parsed, "--on-conflict");
+  if (value !== undefined) {
+    if (!CONFLICT_CHOICES.includes(value as ConflictResolution)) {
+      throw new Error("--on-conflict must be overwrite, skip or download.");
+    }
+    return value as ConflictResolution;
+  }
+  if (plan.conflicts.length === 0 || nonInteractive || !process.stdin.isTTY) {
+    return undefined;
+  }
+
+  suspendShellFn?.();
+  try {
+    const answer = await inquirer.prompt<{ resolution: ConflictResolution }>([
+      {
+        type: "list",
+        name: "resolution",
+        message: `${plan.conflicts.length} files changed both locally and on the server. What should happen to them?`,
+        choices: [
+          { name: "Overwrite the server copies", value: "overwrite" },
+          { name: "Skip them and keep the server copies", value: "skip" },
+          { name: "Download the server copies for review and skip them", value: "download" },
+        ],
+      },
+    ]);
+    return answer.resolution;
+  } finally {
+    resumeShellFn?.();
+  }
+}
+
+async function handleSync(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, [
+    "--jobs",
+    "--exclude",
+    "--include",
+    "--threshold",
+    "--limit-rate",
+    "--on-conflict",
+  ]);
+  const localDir = parsed.positional[0];
+  const remoteDirArg = parsed.positional[1];
+  if (!localDir) {
+    throw new Error(
+      "Usage: sync <localDir> [remoteDir] [--delete] [--dry-run] [--yes] [--verify] [--threshold N] [--archive] " +
+        "[--preserve] [--follow-symlinks] [--limit-rate R] [--on-conflict C] [--no-hooks] [-v]"
+    );
+  }
+
+  const remoteDir = remoteDirArg ? resolveTarget(site, remoteDirArg) : site.remoteCwd || site.remoteRoot;
+  if (!remoteDir) {
+    throw new Error("No remote directory configured.");
+  }
+
+  const threshold = resolveDeleteThreshold(parsed, site);
+  const dryRun = parsed.flags.has("--dry-run") || parsed.flags.has("-n");
+  const jobs = resolveJobs(parsed, site, config);
+
+  const sync = () =>
+    withSftpPool(site, config, jobs, async (clients) => {
+      if (!fs.statSync(localDir).isDirectory()) {
+        throw new Error("Local path must be a directory.");
+      }
+
+      const options: SyncOptions = {
+        localDir,
+        remoteDir,
+        clean: parsed.flags.has("--delete"),
+        dryRun,
+        sftp: clients[0],
+        workers: clients,
+        verify: parsed.flags.has("--verify"),
+        rules: resolveIgnoreRules(parsed, site),
+        transfer: resolveTransferOptions(parsed, site),
+        archive: parsed.flags.has("--archive"),
+      };
+      const plan = await planSync(options);
+      const verbose = parsed.flags.has("-v") || parsed.flags.has("--verbose");
+      printSyncPlan(`${plan.localDir} -> ${plan.remoteDir}`, plan, verbose);
+
+      if (dryRun) {
+        console.log("Dry run; nothing changed.");
+        return applySyncPlan(plan, options);
+      }
+
+      await confirmDeletes(plan.toDelete.length, threshold, parsed, "remote");
+      options.conflicts = await resolveConflictChoice(parsed, plan);
+      options.reviewDir = getReviewDir();
+      const result = await applySyncPlan(plan, options);
+      console.log(`Uploaded: ${result.uploaded.length}`);
+      console.log(`Skipped: ${result.skipped.length}`);
+      console.log(`Deleted: ${result.deleted.length}`);
+      return result;
+    });
+
+  if (dryRun) {
+    await sync();
+  } else {
+    await runDeployment(site, config, parsed, { command: "sync", localDir, remoteDir, logDir: site.remoteRoot }, sync);
+  }
+}
+
+async function handlePull(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--jobs", "--exclude", "--include", "--threshold", "--limit-rate"]);
+  const remoteArg = parsed.positional[0];
+  if (!remoteArg) {
+    throw new Error(
+      "Usage: pull <remoteDir> [localDir] [--delete] [--dry-run] [--yes] [--threshold N] [--preserve] " +
+        "[--follow-symlinks] [-v]"
+    );
+  }
+
+  const remoteDir = resolveTarget(site, remoteArg);
+  const localDir = parsed.positional[1] || path.join(process.cwd(), path.basename(remoteDir));
+  const threshold = resolveDeleteThreshold(parsed, site);
+  const dryRun = parsed.flags.has("--dry-run") || parsed.flags.has("-n");
+  const jobs = resolveJobs(parsed, site, config);
+
+  await withSftpPool(site, config, jobs, async (clients) => {
+    const options: PullOptions = {
+      remoteDir,
+      localDir,
+      clean: parsed.flags.has("--delete"),
+      dryRun,
+      sftp: clients[0],
+      workers: clients,
+      rules: resolveIgnoreRules(parsed, site),
+      transfer: resolveTransferOptions(parsed, site),
+    };
+    const plan = await planPull(options);
+    const verbose = parsed.flags.has("-v") || parsed.flags.has("--verbose");
+    printSyncPlan(`${plan.remoteDir} -> ${plan.localDir}`, plan, verbose);
+
+    if (dryRun) {
+      console.log("Dry run; nothing changed.");
+      return;
+    }
+
+    await confirmDeletes(plan.toDelete.length, threshold, parsed, "local");
+    const result = await applyPullPlan(plan, options);
+    console.log(`Downloaded: ${result.downloaded.length}`);
+    console.log(`Skipped: ${result.skipped.length}`);
+    console.log(`Deleted: ${result.deleted.length}`);
+    reportFailures(result.failed);
+  });
+}
+
+async function handleWatch(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--exclude", "--include", "--debounce"]);
+  const localDir = parsed.positional[0];
+  if (!localDir) {
+    throw new Error("Usage: watch <localDir> [remoteDir] [--debounce ms] [--exclude P] [--include P]");
+  }
+  const remoteDirArg = parsed.positional[1];
+  const remoteDir = remoteDirArg ? resolveTarget(site, remoteDirArg) : site.remoteCwd || site.remoteRoot;
+  if (!remoteDir) {
+    throw new Error("No remote directory configured.");
+  }
+
+  const debounceArg = lastValue(parsed, "--debounce");
+  const debounceMs = debounceArg !== undefined ? Number(debounceArg) : undefined;
+  if (debounceMs !== undefined && (!Number.isInteger(debounceMs) || debounceMs < 0)) {
+    throw new Error("--debounce must be a non-negative number of milliseconds.");
+  }
+
+  await ensureSftp(site, config);
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+
+  console.log(`Watching ${path.resolve(localDir)} -> ${remoteDir}. Press Ctrl+C to stop.`);
+  suspendShellFn?.();
+  process.on("SIGINT", stop);
+  try {
+    await watchDirectory({
       localDir,
       remoteDir,
-      clean: false,
-      dryRun: false,
-      sftp: client,
+      withClient: (handler) => withSftp(site, config, handler),
+      rules: resolveIgnoreRules(parsed, site),
+      debounceMs,
+      signal: controller.signal,
     });
-    console.log(`Uploaded: ${result.uploaded.length}`);
-    console.log(`Skipped: ${result.skipped.length}`);
+  } finally {
+    process.off("SIGINT", stop);
+    resumeShellFn?.();
+  }
+  console.log("Stopped watching.");
+}
+
+async function handleDeploy(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--jobs", "--keep", "--exclude", "--include", "--limit-rate"]);
+  const localDir = parsed.positional[0];
+  if (!localDir) {
+    throw new Error(
+      "Usage: deploy <localDir> [--keep N] [--jobs N] [--exclude P] [--include P] [--archive] [--preserve] " +
+        "[--follow-symlinks] [--limit-rate R] [--no-hooks]"
+    );
+  }
+  // Every deploy uploads into a new release directory, so there is never a .part file to resume from.
+  if (parsed.flags.has("--resume")) {
+    throw new Error("--resume is not supported for deploy; each release is uploaded from scratch.");
+  }
+
+  const keepArg = lastValue(parsed, "--keep");
+  if (keepArg !== undefined) {
+    const keep = Number(keepArg);
+    if (!Number.isInteger(keep) || keep < 1) {
+      throw new Error("--keep must be a positive integer.");
+    }
+    site.releases = { ...site.releases, keep };
+    writeConfig(config);
+  }
+
+  const paths = getReleasePaths(site);
+  const release = formatReleaseName();
+  const releaseDir = `${paths.releasesDir}/${release}`;
+  const jobs = resolveJobs(parsed, site, config);
+
+  const target = { command: "deploy", localDir, remoteDir: paths.linkPath, logDir: paths.releasesDir };
+  await runDeployment(site, config, parsed, target, () =>
+    withSftpPool(site, config, jobs, async (clients) => {
+      if (!fs.statSync(localDir).isDirectory()) {
+        throw new Error("Local path must be a directory.");
+      }
+
+      const client = clients[0];
+      if (await client.exists(releaseDir)) {
+        throw new Error(`Release already exists: ${release}`);
+      }
+
+      console.log(`Uploading release ${release} to ${paths.releasesDir}`);
+      let result: SyncResult;
+      try {
+        result = await syncDirectory({
+          localDir,
+          remoteDir: releaseDir,
+          clean: false,
+          dryRun: false,
+          sftp: client,
+          workers: clients,
+          rules: resolveIgnoreRules(parsed, site),
+          transfer: resolveTransferOptions(parsed, site),
+          archive: parsed.flags.has("--archive"),
+        });
+        console.log(`Uploaded: ${result.uploaded.length}`);
+        reportFailures(result.failed);
+      } catch (error) {
+        await removeRemoteRecursive(client, releaseDir, clients);
+        throw error;
+      }
+
+      await activateRelease(client, paths, release);
+      console.log(`${paths.linkPath} -> ${release}`);
+
+      const pruned = await pruneReleases(client, paths, clients);
+      if (pruned.length > 0) {
+        console.log(`Removed old releases: ${pruned.join(", ")}`);
+      }
+      return result;
+    })
+  );
+}
+
+async function handleRollback(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const paths = getReleasePaths(site);
+  await withSftp(site, config, async (client) => {
+    const release = await rollbackRelease(client, paths, args[0]);
+    console.log(`${paths.linkPath} -> ${release}`);
+  });
+}
+
+async function handleReleases(site: SiteConfig, config: ConfigFile): Promise<void> {
+  const paths = getReleasePaths(site);
+  await withSftp(site, config, async (client) => {
+    const releases = await listReleases(client, paths);
+    if (releases.length === 0) {
+      console.log(`No releases in ${paths.releasesDir}`);
+      return;
+    }
+    const current = await getCurrentRelease(client, paths);
+    for (const release of releases) {
+      console.log(`${release === current ? "*" : " "} ${release}`);
+    }
+    console.log(`Keeping last ${paths.keep} releases.`);
   });
 }
 
+async function handleBackup(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--out", "--keep"]);
+  const remoteDir = parsed.positional[0] ? resolveTarget(site, parsed.positional[0]) : site.remoteRoot;
+  const outArg = lastValue(parsed, "--out");
+  const outFile = outArg ? path.resolve(outArg) : path.join(getBackupDir(site), formatBackupName(site.domain));
+
+  const keepArg = lastValue(parsed, "--keep");
+  if (keepArg !== undefined) {
+    const keep = Number(keepArg);
+    if (!Number.isInteger(keep) || keep < 1) {
+      throw new Error("--keep must be a positive integer.");
+    }
+    site.backups = { ...site.backups, keep };
+    writeConfig(config);
+  }
+
+  await withSftp(site, config, async (client) => {
+    await createBackup(client, { domain: site.domain, remoteDir, outFile });
+  });
+  console.log(`Backed up ${remoteDir} to ${outFile}`);
+
+  if (!outArg) {
+    const pruned = pruneBackups(site);
+    if (pruned.length > 0) {
+      console.log(`Removed old backups: ${pruned.join(", ")}`);
+    }
+  }
+}
+
+async function handleRestore(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
+  const parsed = parseOptions(args, ["--site"]);
+  const archiveArg = parsed.positional[0];
+  if (!archiveArg) {
+    throw new Error("Usage: restore <archive> [remoteDir] [--site domain]");
+  }
+
+  const siteArg = lastValue(parsed, "--site");
+  const targetSite = siteArg ? config.sites[siteArg] : site;
+  if (!targetSite) {
+    throw new Error(`Unknown site: ${siteArg}`);
+  }
+
+  const archivePath = resolveBackupPath(site, archiveArg);
+  const manifest = await readBackupManifest(archivePath);
+  let remoteDir: string;
+  if (parsed.positional[1]) {
+    remoteDir = resolveTarget(targetSite, parsed.positional[1]);
+  } else if (manifest && manifest.domain === targetSite.domain) {
+    remoteDir = ensureWithinRoot(targetSite.remoteRoot, manifest.remoteDir);
+  } else {
+    remoteDir = targetSite.remoteCwd || targetSite.remoteRoot;
+  }
+
+  const { restored } = await withSftp(targetSite, config, async (client) =>
+    restoreBackup(client, { archivePath, remoteDir })
+  );
+  console.log(`Restored ${restored} files to ${targetSite.domain}:${remoteDir}`);
+}
+
+function handleBackups(site: SiteConfig): void {
+  const backups = listBackups(site);
+  if (backups.length === 0) {
+    console.log(`No backups in ${getBackupDir(site)}`);
+    return;
+  }
+  printTable(
+    ["Name", "Size", "Created"],
+    backups.map((backup) => [backup.name, formatBytes(backup.size), backup.createdAt.toLocaleString()])
+  );
+  console.log(`Keeping last ${site.backups?.keep || DEFAULT_KEEP_BACKUPS} backups in ${getBackupDir(site)}.`);
+}
+
+// history is newest-first and shared with readline, so clearing has to empty it in place.
+function handleShellHistory(args: string[], history: string[]): void {
+  if (args[0] === "clear") {
+    history.length = 0;
+    writeShellHistory(history);
+    console.log("Shell history cleared.");
+    return;
+  }
+
+  const count = args[0] ? Number(args[0]) : 20;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Usage: history shell [n] | history shell clear");
+  }
+  for (let i = Math.min(count, history.length) - 1; i >= 0; i -= 1) {
+    console.log(`${String(history.length - i).padStart(5, " ")}  ${history[i]}`);
+  }
+}
+
+function handleHistory(args: string[], site: SiteConfig): void {
+  if (args[0] === "show") {
+    if (!args[1]) {
+      throw new Error("Usage: history show <id>");
+    }
+    const record = findDeployRecord(site, args[1]);
+    printKeyValue({
+      ID: record.id,
+      Date: new Date(record.timestamp).toLocaleString(),
+      Command: record.command,
+      Status: record.status,
+      Error: record.error,
+      User: `${record.user}@${record.host}`,
+      Commit: record.commit,
+      Local: record.localDir,
+      Remote: record.remoteDir,
+      Size: formatBytes(record.bytes),
+      Duration: formatDuration(record.durationMs),
+      Skipped: String(record.skipped),
+    });
+    const groups: Array<[string, string[]]> = [
+      ["Uploaded", record.uploaded],
+      ["Deleted", record.deleted],
+      ["Failed", record.failed.map((failure) => `${failure.path}: ${failure.error}`)],
+    ];
+    for (const [label, entries] of groups) {
+      if (entries.length > 0) {
+        console.log(`${label} (${entries.length}):`);
+        entries.forEach((entry) => console.log(`  ${entry}`));
+      }
+    }
+    return;
+  }
+
+  const count = args[0] ? Number(args[0]) : 10;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Usage: history [n] | history show <id> | history shell [n]");
+  }
+  const records = readHistory(site).slice(-count).reverse();
+  if (records.length === 0) {
+    console.log(`No deploys recorded for ${site.domain}`);
+    return;
+  }
+  printTable(
+    ["ID", "Date", "User", "Commit", "Command", "Files", "Size", "Duration", "Status"],
+    records.map((record) => [
+      record.id,
+      new Date(record.timestamp).toLocaleString(),
+      record.user,
+      record.commit || "-",
+      record.command,
+      String(record.uploaded.length + record.deleted.length),
+      formatBytes(record.bytes),
+      formatDuration(record.durationMs),
+      record.status,
+    ])
+  );
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+async function handleExec(command: string, site: SiteConfig, config: ConfigFile): Promise<number> {
+  if (!command) {
+    throw new Error("Usage: exec <command>");
+  }
+  const cwd = site.remoteCwd || site.remoteRoot;
+  const result = await withSftp(site, config, (client) => execRemote(client, command, { cwd }));
+  return result.code;
+}
+
 async function handleOpen(args: string[], site: SiteConfig, config: ConfigFile): Promise<void> {
   const parsed = parseRemoteArgs(args, "open");
   const remotePath = parsed.remotePath || ".";
@@ -803,7 +2154,7 @@ async function handleOpen(args: string[], site: SiteConfig, config: ConfigFile):
   }
 
   await withSftp(site, config, async (client) => {
-    const type = await client.exists(resolved);
+    const type = await resolveRemoteType(client, resolved);
     if (!type) {
       throw new Error(`Remote path not found: ${resolved}`);
     }
@@ -811,7 +2162,7 @@ async function handleOpen(args: string[], site: SiteConfig, config: ConfigFile):
     const tempDir = createTempDir("open");
     if (type === "d") {
       const localDir = path.join(tempDir, path.basename(resolved));
-      await downloadDirectory(client, resolved, localDir);
+      await downloadDirectory([client], resolved, localDir);
       await openPath(localDir);
       return;
     }
@@ -848,7 +2199,7 @@ async function autoDetectRoot(
       continue;
     }
     const normalized = normalizeRemotePath(candidate);
-    const exists = await client.exists(normalized);
+    const exists = await resolveRemoteType(client, normalized);
     if (exists === "d") {
       site.remoteRoot = normalized;
       site.remoteCwd = normalized;
@@ -867,201 +2218,537 @@ function printShellHelp(): void {
   console.log("  pwd                          Show current remote directory");
   console.log("  root <absolutePath|auto>     Set remote root and cwd");
   console.log("  cd <path>                    Change remote directory");
-  console.log("  ls [path]                    List remote directory");
+  console.log("  ls [-lahtSR] [path|glob]     List remote directory");
   console.log("  mkdir <path>                 Create remote directory");
-  console.log("  rm [-r] <path>               Remove file or directory");
-  console.log("  put <local> [remote]         Upload file to remote");
-  console.log("  get <remote> [local]         Download file or directory");
+  console.log("  rm [-r] <path|glob>...       Remove files or directories");
+  console.log("  mv <src> <dst>               Move or rename a remote file or directory");
+  console.log("  cp [-r] <src> <dst>          Copy a remote file or directory");
+  console.log("  chmod [-R] <mode> <path>...  Change permissions (octal, e.g. 755)");
+  console.log("  stat <path>                  Show size, permissions, owner and times");
+  console.log("  lpwd                         Show current local directory");
+  console.log("  lcd [path]                   Change local directory (home if omitted)");
+  console.log("  lls [-lahtSR] [path|glob]    List local directory");
+  console.log("  lmkdir <path>                Create local directory");
+  console.log("  put <local> [remote]         Upload file to remote (--resume, --checksum, --preserve)");
+  console.log("  get <remote> [local]         Download file or directory (--resume, --checksum, --preserve)");
   console.log("  replace <local> [remote]     Replace remote dir contents");
   console.log("  update <local> [remote]      Add/update files, keep extras");
+  console.log("  sync <local> [remote]        Preview and apply changes (--delete, --dry-run, --yes)");
+  console.log("  pull <remote> [local]        Mirror a remote directory down (--delete, --dry-run)");
+  console.log("  watch <local> [remote]       Upload local changes as they happen (Ctrl+C stops)");
+  console.log("  deploy <local>               Upload a new release and switch the web root to it");
+  console.log("  rollback [release]           Point the web root at an earlier release");
+  console.log("  releases                     List uploaded releases");
+  console.log("  history [n] | show <id>      List recent deploys or show one in detail");
+  console.log("  backup [remote] [--out file] Archive the remote tree to a local .tar.gz");
+  console.log("  restore <archive> [remote]   Upload a backup archive (--site to target another site)");
+  console.log("  backups                      List local backups for this site");
+  console.log("  exec <command>               Run a command over SSH in the current remote directory");
   console.log("  open [remote]                Live Finder mount (macOS) or download to temp");
   console.log("  mount [remote]               Live mount (macOS), do not open Finder");
   console.log("  umount                       Unmount live mount for current site");
   console.log("  mounts                       List mountpoints for saved sites");
+  console.log("  history shell [n] | clear    Show recent shell commands or clear them (Ctrl+R searches)");
   console.log("  exit                         Quit shell");
 }
 
-export async function startShell(): Promise<void> {
+export async function runWatch(args: string[]): Promise<void> {
   const config = readConfig();
-  const api = getApiConfig(config);
-  if (!api.token) {
-    console.log("Missing API token. Run `hostinger token set <token>` first.");
-  }
+  const site = getActiveSite(config);
+  await handleWatch(args, site, config);
+}
 
-  let currentSite = config.activeSite ? config.sites[config.activeSite] : undefined;
+export async function runExec(command: string): Promise<number> {
+  const config = readConfig();
+  const site = getActiveSite(config);
+  return handleExec(command, site, config);
+}
 
-  let rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-    terminal: true,
-  });
+export async function runProjectDeploy(options: {
+  config?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  hooks?: boolean;
+}): Promise<void> {
+  const file = options.config ? path.resolve(options.config) : findProjectConfig();
+  if (!file) {
+    throw new Error(`No ${PROJECT_FILES.join(" or ")} found in ${process.cwd()} or its parents.`);
+  }
+  const project = readProjectConfig(file);
+  process.chdir(path.dirname(file));
+  nonInteractive = true;
+  projectMode = true;
 
-  const ask = (prompt: string) => new Promise<string>((resolve) => rl.question(prompt, resolve));
-  const suspendShell = () => {
-    rl.close();
+  // Work on a copy so project settings never leak into the global config.
+  const config = readConfig();
+  const stored = config.sites[project.domain] || { domain: project.domain, remoteRoot: "/public_html" };
+  const site: SiteConfig = {
+    ...stored,
+    remoteRoot: project.remoteRoot ? normalizeRemotePath(project.remoteRoot) : stored.remoteRoot,
+    remoteCwd: undefined,
+    ignore: [...(stored.ignore || []), ...(project.ignore || [])],
+    jobs: project.jobs ?? stored.jobs,
+    limitRate: project.limitRate ?? stored.limitRate,
+    deleteThreshold: project.deleteThreshold ?? stored.deleteThreshold,
+    hooks: project.hooks ?? stored.hooks,
+    releases: { ...stored.releases, ...(project.keep ? { keep: project.keep } : {}) },
   };
-  const resumeShell = () => {
-    rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-      terminal: true,
-    });
+
+  const mode = project.mode || "update";
+  const args = [project.localDir];
+  if (project.remoteDir && mode === "release") {
+    site.releases = { ...site.releases, link: resolveTarget(site, project.remoteDir) };
+  } else if (project.remoteDir) {
+    args.push(project.remoteDir);
+  }
+  for (const pattern of project.exclude || []) {
+    args.push("--exclude", pattern);
+  }
+  for (const pattern of project.include || []) {
+    args.push("--include", pattern);
+  }
+  if (project.onConflict) {
+    args.push("--on-conflict", project.onConflict);
+  }
+  const flags: Array<[boolean | undefined, string]> = [
+    [project.resume && mode !== "release", "--resume"],
+    [project.checksum, "--checksum"],
+    [project.archive, "--archive"],
+    [project.preserve, "--preserve"],
+    [project.followSymlinks, "--follow-symlinks"],
+    [project.verify && mode !== "release", "--verify"],
+    [project.delete && mode === "sync", "--delete"],
+    [options.yes, "--yes"],
+    [options.hooks === false, "--no-hooks"],
+  ];
+  args.push(...flags.filter(([enabled]) => enabled).map(([, flag]) => flag));
+
+  console.log(`Deploying ${project.localDir} to ${site.domain} (${mode}) using ${file}`);
+  if (options.dryRun) {
+    if (mode === "release") {
+      throw new Error("--dry-run is not supported for release deploys.");
+    }
+    await handleSync([...args, "--dry-run", ...(mode === "replace" ? ["--delete"] : [])], site, config);
+  } else if (mode === "release") {
+    await handleDeploy(args, site, config);
+  } else if (mode === "sync") {
+    await handleSync(args, site, config);
+  } else {
+    await handleReplaceUpdate(mode, args, site, config);
+  }
+}
+
+// Commands after which cached remote listings used for tab completion may be stale.
+const REMOTE_MUTATIONS = new Set([
+  "mkdir",
+  "rm",
+  "mv",
+  "cp",
+  "put",
+  "replace",
+  "update",
+  "sync",
+  "watch",
+  "deploy",
+  "rollback",
+  "restore",
+  "exec",
+]);
+
+// Completion never prompts for credentials; sites without saved ones simply get no remote suggestions.
+async function listForCompletion(
+  site: SiteConfig,
+  config: ConfigFile,
+  remoteDir: string
+): Promise<SftpClient.FileInfo[]> {
+  if (!getSftpFromEnv() && !site.sftp) {
+    return [];
+  }
+  return withSftp(site, config, (client) => client.list(remoteDir));
+}
+
+interface ShellState {
+  config: ConfigFile;
+  site?: SiteConfig;
+  history: string[];
+}
+
+function getStartSite(config: ConfigFile): SiteConfig | undefined {
+  return config.activeSite ? config.sites[config.activeSite] : undefined;
+}
+
+function getSessionOptions(config: ConfigFile): SessionOptions {
+  return {
+    keepaliveInterval: (config.session?.keepalive ?? DEFAULT_KEEPALIVE_SECONDS) * 1000,
+    idleTimeout: (config.session?.idleTimeout ?? DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000,
   };
-  suspendShellFn = suspendShell;
-  resumeShellFn = resumeShell;
+}
 
-  try {
-    while (true) {
-      const line = (await ask(getPrompt(currentSite))).trim();
-      if (!line) {
-        continue;
-      }
+// Runs one command line against the shell state. Returns false for exit; failures throw.
+async function runShellCommand(line: string, state: ShellState): Promise<boolean> {
+  const { config } = state;
+  const parsed = parseArgs(line);
+  const cmd = parsed.cmd.toLowerCase();
+  const args = parsed.args;
 
-      const parsed = parseArgs(line);
-      const cmd = parsed.cmd.toLowerCase();
-      const args = parsed.args;
+  if (cmd === "exit" || cmd === "quit") {
+    return false;
+  }
 
-      try {
-        if (cmd === "exit" || cmd === "quit") {
-          break;
-        }
+  if (cmd === "help") {
+    printShellHelp();
+    return true;
+  }
 
-        if (cmd === "help") {
-          printShellHelp();
-          continue;
-        }
+  if (cmd === "clear") {
+    console.clear();
+    return true;
+  }
 
-        if (cmd === "clear") {
-          console.clear();
-          continue;
-        }
+  if (cmd === "history" && args[0] === "shell") {
+    handleShellHistory(args.slice(1), state.history);
+    return true;
+  }
 
-        if (cmd === "domains") {
-          await handleDomains(config);
-          continue;
-        }
+  if (cmd === "lpwd") {
+    console.log(process.cwd());
+    return true;
+  }
 
-        if (cmd === "connect") {
-          if (!args[0]) {
-            throw new Error("Usage: connect <domain>");
-          }
-          currentSite = await handleConnect(args[0], config);
-          continue;
-        }
+  if (cmd === "lcd") {
+    handleLcd(args[0]);
+    return true;
+  }
 
-        if (cmd === "disconnect") {
-          config.activeSite = undefined;
-          writeConfig(config);
-          currentSite = undefined;
-          console.log("Disconnected.");
-          continue;
-        }
+  if (cmd === "lls") {
+    await handleLls(args);
+    return true;
+  }
 
-        if (cmd === "mounts") {
-          await handleMounts(config);
-          continue;
-        }
+  if (cmd === "lmkdir") {
+    if (!args[0]) {
+      throw new Error("Usage: lmkdir <path>");
+    }
+    const resolved = resolveLocalPath(args[0]);
+    fs.mkdirSync(resolved, { recursive: true });
+    console.log(`Created ${resolved}`);
+    return true;
+  }
 
-        if (!currentSite) {
-          throw new Error("No active site. Run `connect <domain>` first.");
-        }
+  if (cmd === "domains") {
+    await handleDomains(config);
+    return true;
+  }
 
-        if (cmd === "pwd") {
-          console.log(currentSite.remoteCwd || currentSite.remoteRoot);
-          continue;
-        }
+  if (cmd === "connect") {
+    if (!args[0]) {
+      throw new Error("Usage: connect <domain>");
+    }
+    await closeShellSession();
+    state.site = await handleConnect(args[0], config);
+    return true;
+  }
 
-        if (cmd === "root") {
-          if (!args[0]) {
-            throw new Error("Usage: root <absolutePath>");
-          }
-          if (args[0] === "auto") {
-            const site = currentSite;
-            await withSftp(site, config, async (client) => {
-              await autoDetectRoot(site, config, client);
-              console.log(`Remote root set to ${site.remoteRoot}`);
-            });
-          } else {
-            const rootPath = normalizeRemotePath(args[0]);
-            currentSite.remoteRoot = rootPath;
-            currentSite.remoteCwd = rootPath;
-            writeConfig(config);
-            console.log(`Remote root set to ${rootPath}`);
-          }
-          continue;
-        }
+  if (cmd === "disconnect") {
+    await closeShellSession();
+    config.activeSite = undefined;
+    writeConfig(config);
+    state.site = undefined;
+    console.log("Disconnected.");
+    return true;
+  }
 
-        if (cmd === "cd") {
-          if (!args[0]) {
-            currentSite.remoteCwd = currentSite.remoteRoot;
-            writeConfig(config);
-            continue;
-          }
-          await handleCd(args[0], currentSite, config);
-          continue;
-        }
+  if (cmd === "mounts") {
+    await handleMounts(config);
+    return true;
+  }
 
-        if (cmd === "ls") {
-          await handleLs(args[0], currentSite, config);
-          continue;
-        }
+  if (!state.site) {
+    throw new Error("No active site. Run `connect <domain>` first.");
+  }
+  const site = state.site;
 
-        if (cmd === "mkdir") {
-          if (!args[0]) {
-            throw new Error("Usage: mkdir <path>");
-          }
-          await handleMkdir(args[0], currentSite, config);
-          continue;
-        }
+  if (cmd === "pwd") {
+    console.log(site.remoteCwd || site.remoteRoot);
+    return true;
+  }
 
-        if (cmd === "rm") {
-          await handleRm(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "root") {
+    if (!args[0]) {
+      throw new Error("Usage: root <absolutePath>");
+    }
+    if (args[0] === "auto") {
+      await withSftp(site, config, async (client) => {
+        await autoDetectRoot(site, config, client);
+        console.log(`Remote root set to ${site.remoteRoot}`);
+      });
+    } else {
+      const rootPath = normalizeRemotePath(args[0]);
+      site.remoteRoot = rootPath;
+      site.remoteCwd = rootPath;
+      writeConfig(config);
+      console.log(`Remote root set to ${rootPath}`);
+    }
+    return true;
+  }
 
-        if (cmd === "put") {
-          await handlePut(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "cd") {
+    if (!args[0]) {
+      site.remoteCwd = site.remoteRoot;
+      writeConfig(config);
+      return true;
+    }
+    await handleCd(args[0], site, config);
+    return true;
+  }
 
-        if (cmd === "get") {
-          await handleGet(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "ls") {
+    await handleLs(args, site, config);
+    return true;
+  }
 
-        if (cmd === "replace") {
-          await handleReplaceUpdate("replace", args, currentSite, config);
-          continue;
-        }
+  if (cmd === "mkdir") {
+    if (!args[0]) {
+      throw new Error("Usage: mkdir <path>");
+    }
+    await handleMkdir(args[0], site, config);
+    return true;
+  }
 
-        if (cmd === "update") {
-          await handleReplaceUpdate("update", args, currentSite, config);
-          continue;
-        }
+  if (cmd === "rm") {
+    await handleRm(args, site, config);
+    return true;
+  }
 
-        if (cmd === "open") {
-          await handleOpen(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "mv") {
+    await handleMv(args, site, config);
+    return true;
+  }
 
-        if (cmd === "mount") {
-          await handleMount(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "cp") {
+    await handleCp(args, site, config);
+    return true;
+  }
 
-        if (cmd === "umount") {
-          await handleUmount(args, currentSite, config);
-          continue;
-        }
+  if (cmd === "chmod") {
+    await handleChmod(args, site, config);
+    return true;
+  }
+
+  if (cmd === "stat") {
+    await handleStat(args, site, config);
+    return true;
+  }
+
+  if (cmd === "put") {
+    await handlePut(args, site, config);
+    return true;
+  }
+
+  if (cmd === "get") {
+    await handleGet(args, site, config);
+    return true;
+  }
+
+  if (cmd === "replace") {
+    await handleReplaceUpdate("replace", args, site, config);
+    return true;
+  }
+
+  if (cmd === "update") {
+    await handleReplaceUpdate("update", args, site, config);
+    return true;
+  }
+
+  if (cmd === "sync") {
+    await handleSync(args, site, config);
+    return true;
+  }
+
+  if (cmd === "pull") {
+    await handlePull(args, site, config);
+    return true;
+  }
+
+  if (cmd === "watch") {
+    await handleWatch(args, site, config);
+    return true;
+  }
+
+  if (cmd === "deploy") {
+    await handleDeploy(args, site, config);
+    return true;
+  }
+
+  if (cmd === "rollback") {
+    await handleRollback(args, site, config);
+    return true;
+  }
+
+  if (cmd === "releases") {
+    await handleReleases(site, config);
+    return true;
+  }
 
-        console.log(`Unknown command: ${cmd}`);
+  if (cmd === "history") {
+    handleHistory(args, site);
+    return true;
+  }
+
+  if (cmd === "backup") {
+    await handleBackup(args, site, config);
+    return true;
+  }
+
+  if (cmd === "restore") {
+    await handleRestore(args, site, config);
+    return true;
+  }
+
+  if (cmd === "backups") {
+    handleBackups(site);
+    return true;
+  }
+
+  if (cmd === "exec") {
+    const code = await handleExec(line.replace(/^\S+\s*/, ""), site, config);
+    if (code !== 0) {
+      throw new Error(`Exit code: ${code}`);
+    }
+    return true;
+  }
+
+  if (cmd === "open") {
+    await handleOpen(args, site, config);
+    return true;
+  }
+
+  if (cmd === "mount") {
+    await handleMount(args, site, config);
+    return true;
+  }
+
+  if (cmd === "umount") {
+    await handleUmount(args, site, config);
+    return true;
+  }
+
+  throw new Error(`Unknown command: ${cmd}`);
+}
+
+export async function startShell(): Promise<void> {
+  const config = readConfig();
+  const api = getApiConfig(config);
+  if (!api.token) {
+    console.log("Missing API token. Run `hostinger token set <token>` first.");
+  }
+
+  const history = readShellHistory();
+  const state: ShellState = { config, site: getStartSite(config), history };
+  const listings = createListingCache((site, remoteDir) => listForCompletion(site, config, remoteDir));
+  sessionOptions = getSessionOptions(config);
+  const completer = createCompleter(config, () => state.site, listings);
+
+  // readline edits history in place; a write failure should never interrupt the shell.
+  const saveHistory = (entries: string[]) => {
+    if (entries[0] && isSensitiveCommand(entries[0])) {
+      entries.shift();
+    }
+    try {
+      writeShellHistory(entries);
+    } catch {
+      // ignore
+    }
+  };
+  const createShellInterface = () => {
+    const created = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: true,
+      completer,
+      history,
+      historySize: SHELL_HISTORY_SIZE,
+      removeHistoryDuplicates: true,
+    });
+    created.on("history", saveHistory);
+    return created;
+  };
+
+  let rl = createShellInterface();
+  let asking = false;
+  const detachSearch = attachReverseSearch(process.stdin, () => (asking ? rl : undefined), history);
+
+  const ask = async (prompt: string) => {
+    asking = true;
+    try {
+      return await new Promise<string>((resolve) => rl.question(prompt, resolve));
+    } finally {
+      asking = false;
+    }
+  };
+  const suspendShell = () => {
+    rl.close();
+  };
+  const resumeShell = () => {
+    rl = createShellInterface();
+  };
+  suspendShellFn = suspendShell;
+  resumeShellFn = resumeShell;
+
+  try {
+    while (true) {
+      const line = (await ask(getPrompt(state.site))).trim();
+      if (!line) {
+        continue;
+      }
+
+      const cmd = parseArgs(line).cmd.toLowerCase();
+      try {
+        if (!(await runShellCommand(line, state))) {
+          break;
+        }
       } catch (error) {
         console.error(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (REMOTE_MUTATIONS.has(cmd)) {
+          listings.invalidate();
+        }
       }
     }
   } finally {
     suspendShellFn = undefined;
     resumeShellFn = undefined;
+    sessionOptions = undefined;
+    detachSearch();
     rl.close();
+    await closeShellSession();
+  }
+}
+
+export async function runScript(source: string, options: { continueOnError?: boolean } = {}): Promise<number> {
+  const config = readConfig();
+  const state: ShellState = { config, site: getStartSite(config), history: readShellHistory() };
+  nonInteractive = !process.stdin.isTTY;
+  sessionOptions = getSessionOptions(config);
+
+  let failed = false;
+  try {
+    for (const line of splitCommands(source)) {
+      try {
+        if (!(await runShellCommand(line, state))) {
+          break;
+        }
+      } catch (error) {
+        failed = true;
+        console.error(`${line}: ${error instanceof Error ? error.message : String(error)}`);
+        if (!options.continueOnError) {
+          break;
+        }
+      }
+    }
+  } finally {
+    sessionOptions = undefined;
+    await closeShellSession();
   }
+  return failed ? 1 : 0;
 }
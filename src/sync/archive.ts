@@ -0,0 +1,117 @@
+import fs from "fs";
+import { PassThrough } from "stream";
+import zlib from "zlib";
+import tar from "tar-stream";
+import type SftpClient from "ssh2-sftp-client";
+import type { TransferOptions } from "../sftp/client";
+import { canExec, captureRemote, shellQuote } from "../sftp/exec";
+import { TransferProgress } from "../utils/progress";
+import { writeEntry } from "../utils/tar";
+import type { UploadEntry } from "./sync";
+
+const STAGING_PREFIX = ".hostinger-staging-";
+const ARCHIVE_NAME = "upload.tar.gz";
+
+async function packEntries(
+  client: SftpClient,
+  entries: UploadEntry[],
+  remotePath: string,
+  progress: TransferProgress,
+  transfer: TransferOptions
+): Promise<void> {
+  const pack = tar.pack();
+  const body = transfer.limiter ? transfer.limiter.throttle() : new PassThrough();
+  const gzip = zlib.createGzip();
+  pack.on("error", (error) => body.destroy(error));
+  pack.pipe(gzip).pipe(body);
+  const upload = client.put(body, remotePath);
+  // A failed put stops draining the stream, so it has to interrupt the pack loop instead of waiting behind it.
+  let putFailed = false;
+  const uploadFailed = new Promise<never>((_resolve, reject) => {
+    upload.catch((error) => {
+      putFailed = true;
+      reject(error);
+    });
+  });
+  uploadFailed.catch(() => undefined);
+
+  const writeAll = async () => {
+    for (const entry of entries) {
+      const stat = fs.statSync(entry.localPath);
+      const input = fs.createReadStream(entry.localPath);
+      input.on("data", (chunk) => progress.add((chunk as Buffer).length));
+      await writeEntry(
+        pack,
+        { name: entry.relativePosix, size: stat.size, mode: stat.mode & 0o7777, mtime: stat.mtime },
+        input
+      );
+    }
+    pack.finalize();
+  };
+  const writing = writeAll();
+  writing.catch(() => undefined);
+
+  try {
+    await Promise.race([writing, uploadFailed]);
+  } catch (error) {
+    if (putFailed) {
+      // The put already gave up, so nothing listens for stream errors any more.
+      pack.destroy();
+      gzip.destroy();
+      body.destroy();
+    } else {
+      pack.destroy(error instanceof Error ? error : new Error(String(error)));
+      await upload.catch(() => undefined);
+    }
+    throw error;
+  }
+  await upload;
+}
+
+export async function uploadArchive(
+  client: SftpClient,
+  entries: UploadEntry[],
+  remoteDir: string,
+  totalBytes: number,
+  transfer: TransferOptions = {}
+): Promise<boolean> {
+  if (!(await canExec(client, "command -v tar"))) {
+    console.log("SSH exec with tar is unavailable; uploading files individually.");
+    return false;
+  }
+
+  const staging = `${remoteDir}/${STAGING_PREFIX}${Date.now()}`;
+  const archivePath = `${staging}/${ARCHIVE_NAME}`;
+  const filesDir = `${staging}/files`;
+
+  try {
+    await client.mkdir(filesDir, true);
+    const progress = new TransferProgress(totalBytes, "Uploading archive", transfer.limiter?.bytesPerSecond);
+    try {
+      await packEntries(client, entries, archivePath, progress, transfer);
+    } finally {
+      progress.finish();
+    }
+
+    const flags = transfer.preserve ? "-xzpf" : "-xzf";
+    const extract = await captureRemote(client, `tar ${flags} ${shellQuote(archivePath)} -C ${shellQuote(filesDir)}`);
+    if (extract.code !== 0) {
+      throw new Error(extract.stderr.trim() || `tar exited with code ${extract.code}`);
+    }
+    const move = await captureRemote(
+      client,
+      `find . -type f -exec sh -c 'for f; do mv -f -T "$f" "$0/$f" || exit 1; done' ${shellQuote(remoteDir)} {} +`,
+      { cwd: filesDir }
+    );
+    if (move.code !== 0) {
+      throw new Error(move.stderr.trim() || `mv exited with code ${move.code}`);
+    }
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`Archive upload failed (${message}); uploading files individually.`);
+    return false;
+  } finally {
+    await captureRemote(client, `rm -rf ${shellQuote(staging)}`).catch(() => undefined);
+  }
+}
@@ -0,0 +1,74 @@
+import { spawn } from "child_process";
+import type SftpClient from "ssh2-sftp-client";
+import type { HooksConfig } from "../config";
+import { execRemote } from "../sftp/exec";
+
+export interface HookContext {
+  domain: string;
+  localDir: string;
+  remoteDir: string;
+  uploaded?: string[];
+  error?: string;
+}
+
+// Keeps remote command lines and local environments well below common argument size limits.
+const MAX_FILE_LIST_LENGTH = 64 * 1024;
+
+export function buildHookEnv(context: HookContext): Record<string, string> {
+  const env: Record<string, string> = {
+    HOSTINGER_DOMAIN: context.domain,
+    HOSTINGER_LOCAL_DIR: context.localDir,
+    HOSTINGER_REMOTE_DIR: context.remoteDir,
+  };
+  if (context.uploaded) {
+    const list = context.uploaded.join("\n");
+    env.HOSTINGER_UPLOADED_COUNT = String(context.uploaded.length);
+    env.HOSTINGER_UPLOADED_FILES = list.length <= MAX_FILE_LIST_LENGTH ? list : "";
+  }
+  if (context.error) {
+    env.HOSTINGER_ERROR = context.error;
+  }
+  return env;
+}
+
+function runLocalCommand(command: string, env: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: "inherit",
+      env: { ...process.env, ...env },
+    });
+    child.on("error", (error) => reject(error));
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
+export async function runLocalHooks(
+  name: keyof HooksConfig,
+  commands: string[] | undefined,
+  env: Record<string, string>
+): Promise<void> {
+  for (const command of commands || []) {
+    console.log(`[${name}] ${command}`);
+    const code = await runLocalCommand(command, env);
+    if (code !== 0) {
+      throw new Error(`${name} hook failed with exit code ${code}: ${command}`);
+    }
+  }
+}
+
+export async function runRemoteHooks(
+  client: SftpClient,
+  name: keyof HooksConfig,
+  commands: string[] | undefined,
+  env: Record<string, string>,
+  cwd: string
+): Promise<void> {
+  for (const command of commands || []) {
+    console.log(`[${name}] ${command}`);
+    const { code } = await execRemote(client, command, { cwd, env });
+    if (code !== 0) {
+      throw new Error(`${name} hook failed with exit code ${code}: ${command}`);
+    }
+  }
+}
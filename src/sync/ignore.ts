@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+import fg from "fast-glob";
+import ignore, { type Ignore } from "ignore";
+import { DEPLOY_LOG } from "../history/history";
+import { MANIFEST_NAME } from "./manifest";
+
+export const IGNORE_FILE = ".hostingerignore";
+
+const BUILTIN_IGNORES = [".git/", ".DS_Store", "node_modules/", IGNORE_FILE, `/${MANIFEST_NAME}`, `/${DEPLOY_LOG}`];
+
+export interface IgnoreRules {
+  patterns: string[];
+  exclude: string[];
+  include: string[];
+}
+
+export interface IgnoreMatcher {
+  ignores(relativePosix: string, isDirectory?: boolean): boolean;
+}
+
+interface ScopedIgnore {
+  prefix: string;
+  rules: Ignore;
+}
+
+function applyRules(rules: Ignore, relative: string, ignored: boolean): boolean {
+  const result = rules.test(relative);
+  if (result.ignored) {
+    return true;
+  }
+  if (result.unignored) {
+    return false;
+  }
+  return ignored;
+}
+
+function loadIgnoreFiles(localDir: string): ScopedIgnore[] {
+  if (!fs.existsSync(localDir)) {
+    return [];
+  }
+
+  const files = fg.sync([`**/${IGNORE_FILE}`], {
+    cwd: localDir,
+    dot: true,
+    onlyFiles: true,
+    ignore: ["**/.git/**", "**/node_modules/**"],
+  });
+
+  return files
+    .map((file) => {
+      const dir = path.posix.dirname(file);
+      return {
+        prefix: dir === "." ? "" : `${dir}/`,
+        rules: ignore().add(fs.readFileSync(path.join(localDir, file), "utf8")),
+      };
+    })
+    .sort((a, b) => a.prefix.split("/").length - b.prefix.split("/").length);
+}
+
+export function createIgnoreMatcher(
+  localDir: string,
+  rules: IgnoreRules,
+  options: { builtins: boolean }
+): IgnoreMatcher {
+  const base = ignore();
+  if (options.builtins) {
+    base.add(BUILTIN_IGNORES);
+  }
+  base.add(rules.patterns);
+  const scoped = loadIgnoreFiles(localDir);
+  const exclude = ignore().add(rules.exclude);
+  const include = ignore().add(rules.include);
+
+  return {
+    ignores(relativePosix: string, isDirectory = false): boolean {
+      const relative = isDirectory ? `${relativePosix.replace(/\/+$/, "")}/` : relativePosix;
+      let ignored = applyRules(base, relative, false);
+      for (const entry of scoped) {
+        if (relative.startsWith(entry.prefix) && relative !== entry.prefix) {
+          ignored = applyRules(entry.rules, relative.slice(entry.prefix.length), ignored);
+        }
+      }
+      if (exclude.ignores(relative)) {
+        ignored = true;
+      }
+      if (include.ignores(relative)) {
+        ignored = false;
+      }
+      return ignored;
+    },
+  };
+}
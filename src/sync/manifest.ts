@@ -0,0 +1,100 @@
+import fs from "fs";
+import type SftpClient from "ssh2-sftp-client";
+import { readRemoteLink, resolveRemoteType } from "../sftp/client";
+import { hashStream } from "../utils/hash";
+
+export const MANIFEST_NAME = ".hostinger-manifest.json";
+
+export interface ManifestEntry {
+  hash: string;
+  size: number;
+  mode: number;
+  mtime?: number;
+  link?: string;
+}
+
+export interface DeployManifest {
+  version: 1;
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+export function createManifest(files: Record<string, ManifestEntry> = {}): DeployManifest {
+  return {
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    files,
+  };
+}
+
+export function hashLocalFile(localPath: string): Promise<string> {
+  return hashStream(fs.createReadStream(localPath));
+}
+
+export function hashRemoteFile(client: SftpClient, remotePath: string): Promise<string> {
+  return hashStream(client.createReadStream(remotePath));
+}
+
+export async function readRemoteManifest(client: SftpClient, remoteDir: string): Promise<DeployManifest | null> {
+  const manifestPath = `${remoteDir}/${MANIFEST_NAME}`;
+  if ((await client.exists(manifestPath)) !== "-") {
+    return null;
+  }
+
+  try {
+    const raw = await client.get(manifestPath);
+    const parsed = JSON.parse(raw.toString()) as DeployManifest;
+    if (parsed.version !== 1 || !parsed.files || typeof parsed.files !== "object") {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeRemoteManifest(
+  client: SftpClient,
+  remoteDir: string,
+  manifest: DeployManifest
+): Promise<void> {
+  const manifestPath = `${remoteDir}/${MANIFEST_NAME}`;
+  manifest.updatedAt = new Date().toISOString();
+  await client.put(Buffer.from(JSON.stringify(manifest, null, 2), "utf8"), manifestPath);
+}
+
+export async function buildRemoteManifest(client: SftpClient, remoteDir: string): Promise<DeployManifest> {
+  const files: Record<string, ManifestEntry> = {};
+
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    const entries = await client.list(dir);
+    for (const entry of entries) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const fullPath = `${dir}/${entry.name}`;
+      if (entry.type === "d") {
+        await walk(fullPath, relative);
+        continue;
+      }
+      if (entry.type === "l") {
+        files[relative] = { hash: "", size: 0, mode: 0o777, link: await readRemoteLink(client, fullPath) };
+        continue;
+      }
+      if (entry.type !== "-" || relative === MANIFEST_NAME) {
+        continue;
+      }
+      const stat = await client.stat(fullPath);
+      files[relative] = {
+        hash: await hashRemoteFile(client, fullPath),
+        size: entry.size,
+        mode: stat.mode & 0o777,
+        mtime: entry.modifyTime,
+      };
+    }
+  };
+
+  if ((await resolveRemoteType(client, remoteDir)) === "d") {
+    await walk(remoteDir, "");
+  }
+
+  return createManifest(files);
+}
@@ -0,0 +1,265 @@
+import fs from "fs";
+import path from "path";
+import type SftpClient from "ssh2-sftp-client";
+import { getWithProgress, readRemoteLink, resolveRemoteType, type TransferOptions } from "../sftp/client";
+import { isPortableLink, listLocalEntries, replaceLocalSymlink } from "../utils/links";
+import { normalizeRemotePath } from "../utils/path";
+import { runPool } from "../utils/pool";
+import { formatBytes, TransferProgress } from "../utils/progress";
+import { createIgnoreMatcher, type IgnoreMatcher, type IgnoreRules } from "./ignore";
+import { hashLocalFile, readRemoteManifest, type DeployManifest } from "./manifest";
+import {
+  EMPTY_RULES,
+  resolveWorkers,
+  toPosixRelative,
+  type PlanItem,
+  type PlanSummary,
+  type SyncFailure,
+} from "./sync";
+
+export interface PullOptions {
+  remoteDir: string;
+  localDir: string;
+  clean: boolean;
+  dryRun: boolean;
+  sftp: SftpClient;
+  workers?: SftpClient[];
+  rules?: IgnoreRules;
+  transfer?: TransferOptions;
+}
+
+export interface DownloadEntry extends PlanItem {
+  remotePath: string;
+  localPath: string;
+  modifyTime: number;
+  accessTime: number;
+  link?: string;
+}
+
+export interface LocalEntry extends PlanItem {
+  localPath: string;
+}
+
+export interface PullPlan extends PlanSummary {
+  added: DownloadEntry[];
+  changed: DownloadEntry[];
+  unchanged: DownloadEntry[];
+  toDelete: LocalEntry[];
+}
+
+export interface PullResult {
+  downloaded: string[];
+  skipped: string[];
+  deleted: string[];
+  failed: SyncFailure[];
+}
+
+interface RemoteListing {
+  rootDir: string;
+  localDir: string;
+  matcher: IgnoreMatcher;
+  followSymlinks: boolean;
+}
+
+async function listRemoteFiles(
+  client: SftpClient,
+  listing: RemoteListing,
+  remoteDir: string,
+  prefix = ""
+): Promise<DownloadEntry[]> {
+  const results: DownloadEntry[] = [];
+  const entries = await client.list(remoteDir);
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (listing.matcher.ignores(relative, entry.type === "d")) {
+      continue;
+    }
+    const remotePath = `${remoteDir}/${entry.name}`;
+    const item = {
+      remotePath,
+      localPath: path.join(listing.localDir, ...relative.split("/")),
+      relativePosix: relative,
+      size: entry.size,
+      modifyTime: entry.modifyTime,
+      accessTime: entry.accessTime,
+    };
+    let type = entry.type;
+    if (type === "l") {
+      const target = await readRemoteLink(client, remotePath);
+      if (!listing.followSymlinks && isPortableLink(listing.rootDir, remotePath, target, path.posix)) {
+        results.push({ ...item, size: 0, link: target });
+        continue;
+      }
+      const stat = await client.stat(remotePath).catch(() => undefined);
+      if (!stat) {
+        continue;
+      }
+      type = stat.isDirectory ? "d" : "-";
+      Object.assign(item, { size: stat.size, modifyTime: stat.modifyTime, accessTime: stat.accessTime });
+    }
+    if (type === "d") {
+      results.push(...(await listRemoteFiles(client, listing, remotePath, relative)));
+    } else if (type === "-") {
+      results.push(item);
+    }
+  }
+  return results;
+}
+
+async function isUnchanged(entry: DownloadEntry, manifest: DeployManifest | null): Promise<boolean> {
+  if (entry.link !== undefined) {
+    const stat = fs.lstatSync(entry.localPath, { throwIfNoEntry: false });
+    return Boolean(stat?.isSymbolicLink()) && fs.readlinkSync(entry.localPath) === entry.link;
+  }
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(entry.localPath);
+  } catch {
+    return false;
+  }
+  if (!stat.isFile() || stat.size !== entry.size) {
+    return false;
+  }
+  if (Math.abs(stat.mtimeMs - entry.modifyTime) < 2000) {
+    return true;
+  }
+
+  const known = manifest?.files[entry.relativePosix];
+  if (!known || known.size !== entry.size) {
+    return false;
+  }
+  return (await hashLocalFile(entry.localPath)) === known.hash;
+}
+
+function localExists(localPath: string): boolean {
+  return fs.lstatSync(localPath, { throwIfNoEntry: false }) !== undefined;
+}
+
+export async function planPull(options: PullOptions): Promise<PullPlan> {
+  const { sftp, clean } = options;
+  const localDir = path.resolve(options.localDir);
+  const remoteDir = normalizeRemotePath(options.remoteDir);
+  const rules = options.rules || EMPTY_RULES;
+  const matcher = createIgnoreMatcher(localDir, rules, { builtins: true });
+
+  if ((await resolveRemoteType(sftp, remoteDir)) !== "d") {
+    throw new Error(`Remote directory not found: ${remoteDir}`);
+  }
+
+  const manifest = await readRemoteManifest(sftp, remoteDir);
+  const listing = { rootDir: remoteDir, localDir, matcher, followSymlinks: Boolean(options.transfer?.followSymlinks) };
+  const remoteFiles = await listRemoteFiles(sftp, listing, remoteDir);
+  const states: boolean[] = new Array(remoteFiles.length);
+  const compareFailures = await runPool(
+    remoteFiles.map((entry, index) => ({ entry, index })),
+    8,
+    async ({ entry, index }) => {
+      states[index] = await isUnchanged(entry, manifest);
+    }
+  );
+  if (compareFailures.length > 0) {
+    throw compareFailures[0].error;
+  }
+
+  const plan: PullPlan = {
+    localDir,
+    remoteDir,
+    added: remoteFiles.filter((entry) => !localExists(entry.localPath)),
+    changed: remoteFiles.filter((entry, index) => !states[index] && localExists(entry.localPath)),
+    unchanged: remoteFiles.filter((_, index) => states[index]),
+    toDelete: [],
+  };
+
+  if (clean && fs.existsSync(localDir)) {
+    const remoteSet = new Set(remoteFiles.map((entry) => entry.relativePosix));
+    // Local links are listed as links so --delete never removes files through them.
+    const localFiles = await listLocalEntries(localDir);
+    plan.toDelete = [...localFiles.files, ...Object.keys(localFiles.links)]
+      .map((file) => toPosixRelative(file))
+      .filter((relative) => !remoteSet.has(relative) && !matcher.ignores(relative))
+      .map((relative) => {
+        const localPath = path.join(localDir, ...relative.split("/"));
+        return { relativePosix: relative, localPath, size: fs.lstatSync(localPath).size };
+      });
+  }
+
+  return plan;
+}
+
+export async function applyPullPlan(plan: PullPlan, options: PullOptions): Promise<PullResult> {
+  const { clean, dryRun } = options;
+  const workers = resolveWorkers(options);
+  const downloads = [...plan.added, ...plan.changed].filter((entry) => entry.link === undefined);
+  const links = [...plan.added, ...plan.changed].filter((entry) => entry.link !== undefined);
+
+  const downloaded: string[] = [];
+  const skipped = plan.unchanged.map((entry) => entry.relativePosix);
+  const deleted: string[] = [];
+  const failed: SyncFailure[] = [];
+
+  if (dryRun) {
+    return {
+      downloaded: [...downloads, ...links].map((entry) => entry.relativePosix),
+      skipped,
+      deleted: plan.toDelete.map((entry) => entry.relativePosix),
+      failed,
+    };
+  }
+
+  if (downloads.length > 0) {
+    const totalBytes = downloads.reduce((sum, entry) => sum + entry.size, 0);
+    console.log(`Downloading ${downloads.length} files (${formatBytes(totalBytes)})`);
+
+    const progress = new TransferProgress(totalBytes, "Downloading", options.transfer?.limiter?.bytesPerSecond);
+    try {
+      const failures = await runPool(downloads, workers.length, async (entry, worker) => {
+        fs.mkdirSync(path.dirname(entry.localPath), { recursive: true });
+        if (fs.lstatSync(entry.localPath, { throwIfNoEntry: false })?.isSymbolicLink()) {
+          fs.unlinkSync(entry.localPath);
+        }
+        await getWithProgress(
+          workers[worker],
+          entry.remotePath,
+          entry.localPath,
+          entry.size,
+          progress,
+          options.transfer
+        );
+        fs.utimesSync(entry.localPath, new Date(entry.accessTime), new Date(entry.modifyTime));
+        downloaded.push(entry.relativePosix);
+      });
+      failed.push(...failures.map((failure) => ({ path: failure.item.relativePosix, error: failure.error.message })));
+    } finally {
+      progress.finish();
+    }
+  }
+
+  for (const entry of links) {
+    try {
+      fs.mkdirSync(path.dirname(entry.localPath), { recursive: true });
+      replaceLocalSymlink(entry.link as string, entry.localPath);
+      downloaded.push(entry.relativePosix);
+    } catch (error) {
+      failed.push({ path: entry.relativePosix, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (clean) {
+    for (const entry of plan.toDelete) {
+      try {
+        fs.unlinkSync(entry.localPath);
+        deleted.push(entry.relativePosix);
+      } catch (error) {
+        failed.push({ path: entry.relativePosix, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return { downloaded, skipped, deleted, failed };
+}
+
+export async function pullDirectory(options: PullOptions): Promise<PullResult> {
+  const plan = await planPull(options);
+  return applyPullPlan(plan, options);
+}
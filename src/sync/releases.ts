@@ -0,0 +1,124 @@
+import path from "path";
+import type SftpClient from "ssh2-sftp-client";
+import { DEFAULT_KEEP_RELEASES, type SiteConfig } from "../config";
+import {
+  createRemoteSymlink,
+  readRemoteLink,
+  removeRemoteRecursive,
+} from "../sftp/client";
+import { normalizeRemotePath } from "../utils/path";
+
+export interface ReleasePaths {
+  linkPath: string;
+  releasesDir: string;
+  keep: number;
+}
+
+export function getReleasePaths(site: SiteConfig): ReleasePaths {
+  const linkPath = normalizeRemotePath(site.releases?.link || site.remoteRoot || "/public_html");
+  const releasesDir = normalizeRemotePath(
+    site.releases?.dir || path.posix.join(path.posix.dirname(linkPath), "releases")
+  );
+  return {
+    linkPath,
+    releasesDir,
+    keep: site.releases?.keep || DEFAULT_KEEP_RELEASES,
+  };
+}
+
+export function formatReleaseName(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+}
+
+export async function listReleases(client: SftpClient, paths: ReleasePaths): Promise<string[]> {
+  if ((await client.exists(paths.releasesDir)) !== "d") {
+    return [];
+  }
+  const entries = await client.list(paths.releasesDir);
+  return entries
+    .filter((entry) => entry.type === "d")
+    .map((entry) => entry.name)
+    .sort();
+}
+
+export async function getCurrentRelease(client: SftpClient, paths: ReleasePaths): Promise<string | undefined> {
+  if ((await client.exists(paths.linkPath)) !== "l") {
+    return undefined;
+  }
+  const target = await readRemoteLink(client, paths.linkPath);
+  const absolute = path.posix.resolve(path.posix.dirname(paths.linkPath), target);
+  if (path.posix.dirname(absolute) !== paths.releasesDir) {
+    return undefined;
+  }
+  return path.posix.basename(absolute);
+}
+
+export async function activateRelease(client: SftpClient, paths: ReleasePaths, release: string): Promise<void> {
+  const releaseDir = `${paths.releasesDir}/${release}`;
+  if ((await client.exists(releaseDir)) !== "d") {
+    throw new Error(`Release not found: ${release}`);
+  }
+
+  const linkType = await client.exists(paths.linkPath);
+  if (linkType === "d") {
+    const stat = await client.stat(paths.linkPath);
+    const previousDir = `${paths.releasesDir}/${formatReleaseName(new Date(stat.modifyTime))}`;
+    console.log(`Moving existing ${paths.linkPath} to ${previousDir}`);
+    await client.rename(paths.linkPath, previousDir);
+  } else if (linkType === "-") {
+    throw new Error(`Cannot replace regular file with release link: ${paths.linkPath}`);
+  }
+
+  const target = path.posix.relative(path.posix.dirname(paths.linkPath), releaseDir);
+  const tempLink = `${paths.linkPath}.${release}.tmp`;
+  if (await client.exists(tempLink)) {
+    await client.delete(tempLink);
+  }
+  await createRemoteSymlink(client, target, tempLink);
+  await client.posixRename(tempLink, paths.linkPath);
+}
+
+export async function rollbackRelease(
+  client: SftpClient,
+  paths: ReleasePaths,
+  release?: string
+): Promise<string> {
+  const releases = await listReleases(client, paths);
+  const current = await getCurrentRelease(client, paths);
+
+  let target = release;
+  if (target) {
+    if (target.includes("/") || !releases.includes(target)) {
+      throw new Error(`Release not found: ${target}`);
+    }
+  } else {
+    const currentIndex = current ? releases.indexOf(current) : releases.length;
+    target = currentIndex > 0 ? releases[currentIndex - 1] : undefined;
+    if (!target) {
+      throw new Error("No earlier release to roll back to.");
+    }
+  }
+
+  if (target === current) {
+    throw new Error(`Release ${target} is already active.`);
+  }
+
+  await activateRelease(client, paths, target);
+  return target;
+}
+
+export async function pruneReleases(
+  client: SftpClient,
+  paths: ReleasePaths,
+  workers: SftpClient[] = [client]
+): Promise<string[]> {
+  const releases = await listReleases(client, paths);
+  const current = await getCurrentRelease(client, paths);
+  const excess = releases.slice(0, Math.max(0, releases.length - paths.keep));
+  const pruned = excess.filter((release) => release !== current);
+
+  for (const release of pruned) {
+    await removeRemoteRecursive(client, `${paths.releasesDir}/${release}`, workers);
+  }
+  return pruned;
+}
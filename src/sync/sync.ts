@@ -1,9 +1,35 @@
 import fs from "fs";
 import path from "path";
-import fg from "fast-glob";
 import type SftpClient from "ssh2-sftp-client";
-import { ensureRemoteDir, putWithProgress, removeRemoteRecursive } from "../sftp/client";
+import {
+  ensureRemoteDir,
+  ensureRemoteDirs,
+  getWithProgress,
+  PART_SUFFIX,
+  putSymlink,
+  readRemoteLink,
+  putWithProgress,
+  resolveRemoteType,
+  type RemoteKeepFilter,
+  type TransferOptions,
+} from "../sftp/client";
+import { DEPLOY_LOG } from "../history/history";
+import { uploadArchive } from "./archive";
+import { createIgnoreMatcher, type IgnoreRules } from "./ignore";
+import {
+  buildRemoteManifest,
+  createManifest,
+  hashLocalFile,
+  hashRemoteFile,
+  MANIFEST_NAME,
+  readRemoteManifest,
+  writeRemoteManifest,
+  type DeployManifest,
+  type ManifestEntry,
+} from "./manifest";
+import { listLocalFiles } from "../utils/links";
 import { normalizeRemotePath } from "../utils/path";
+import { runPool } from "../utils/pool";
 import { formatBytes, TransferProgress } from "../utils/progress";
 
 export interface SyncOptions {
@@ -12,143 +38,513 @@ export interface SyncOptions {
   clean: boolean;
   dryRun: boolean;
   sftp: SftpClient;
+  workers?: SftpClient[];
+  verify?: boolean;
+  rules?: IgnoreRules;
+  transfer?: TransferOptions;
+  archive?: boolean;
+  conflicts?: ConflictResolution;
+  reviewDir?: string;
+}
+
+export type ConflictResolution = "overwrite" | "skip" | "download";
+
+export interface SyncFailure {
+  path: string;
+  error: string;
 }
 
 export interface SyncResult {
   uploaded: string[];
   skipped: string[];
   deleted: string[];
+  failed: SyncFailure[];
+  bytes: number;
+}
+
+export interface UploadEntry {
+  localPath: string;
+  remotePath: string;
+  relativePosix: string;
+  remoteDirname: string;
+  size: number;
+  link?: string;
+}
+
+export interface RemoteEntry {
+  remotePath: string;
+  relativePosix: string;
+  size: number;
+  modifyTime: number;
+}
+
+export interface PlanItem {
+  relativePosix: string;
+  size: number;
+}
+
+export interface PlanSummary {
+  localDir: string;
+  remoteDir: string;
+  added: PlanItem[];
+  changed: PlanItem[];
+  unchanged: PlanItem[];
+  toDelete: PlanItem[];
+  drifted?: PlanItem[];
+  conflicts?: PlanItem[];
+}
+
+export interface SyncPlan extends PlanSummary {
+  added: UploadEntry[];
+  changed: UploadEntry[];
+  unchanged: UploadEntry[];
+  toDelete: RemoteEntry[];
+  drifted: UploadEntry[];
+  conflicts: UploadEntry[];
+  previous: DeployManifest | null;
+  nextFiles: Record<string, ManifestEntry>;
 }
 
-const DEFAULT_IGNORES = ["**/.git/**", "**/.DS_Store", "**/node_modules/**"];
+type UploadState = "new" | "changed" | "unchanged" | "drifted" | "conflict";
+
+export const EMPTY_RULES: IgnoreRules = { patterns: [], exclude: [], include: [] };
 
-function toPosixRelative(filePath: string): string {
+export function toPosixRelative(filePath: string): string {
   return filePath.split(path.sep).join("/");
 }
 
-async function shouldUpload(client: SftpClient, remotePath: string, localStat: fs.Stats): Promise<boolean> {
+async function compareRemote(
+  client: SftpClient,
+  remotePath: string,
+  localStat: fs.Stats
+): Promise<"new" | "changed" | "unchanged"> {
+  let stat: SftpClient.FileStats;
   try {
-    const stat = await client.stat(remotePath);
-    if (!stat) {
-      return true;
-    }
+    stat = await client.stat(remotePath);
+  } catch {
+    return "new";
+  }
 
-    if (stat.size !== localStat.size) {
-      return true;
-    }
+  if (!stat) {
+    return "new";
+  }
 
-    const remoteMtime = stat.modifyTime ? stat.modifyTime * 1000 : 0;
-    if (remoteMtime && localStat.mtimeMs > remoteMtime + 2000) {
-      return true;
-    }
+  if (stat.size !== localStat.size) {
+    return "changed";
+  }
+
+  const remoteMtime = stat.modifyTime || 0;
+  if (remoteMtime && localStat.mtimeMs > remoteMtime + 2000) {
+    return "changed";
+  }
 
-    return false;
+  return "unchanged";
+}
+
+async function compareRemoteLink(
+  client: SftpClient,
+  remotePath: string,
+  target: string
+): Promise<"new" | "changed" | "unchanged"> {
+  const type = await client.exists(remotePath);
+  if (type !== "l") {
+    return type ? "changed" : "new";
+  }
+  try {
+    return (await readRemoteLink(client, remotePath)) === target ? "unchanged" : "changed";
   } catch {
-    return true;
+    return "changed";
   }
 }
 
-async function listRemoteRecursive(client: SftpClient, remoteDir: string): Promise<string[]> {
-  const results: string[] = [];
+async function listRemoteRecursive(
+  client: SftpClient,
+  remoteDir: string,
+  keep: RemoteKeepFilter,
+  prefix = ""
+): Promise<RemoteEntry[]> {
+  const results: RemoteEntry[] = [];
   const entries = await client.list(remoteDir);
   for (const entry of entries) {
     const fullPath = `${remoteDir}/${entry.name}`;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (keep(relative, entry.type === "d")) {
+      continue;
+    }
     if (entry.type === "d") {
-      results.push(...(await listRemoteRecursive(client, fullPath)));
+      results.push(...(await listRemoteRecursive(client, fullPath, keep, relative)));
     } else {
-      results.push(fullPath);
+      results.push({ remotePath: fullPath, relativePosix: relative, size: entry.size, modifyTime: entry.modifyTime });
     }
   }
   return results;
 }
 
-export async function syncDirectory(options: SyncOptions): Promise<SyncResult> {
-  const { localDir, remoteDir, clean, dryRun, sftp } = options;
+export function resolveWorkers(options: { sftp: SftpClient; workers?: SftpClient[] }): SftpClient[] {
+  return options.workers && options.workers.length > 0 ? options.workers : [options.sftp];
+}
+
+// Compares the remote tree with the size and mtime recorded at the last deploy to find files edited on the server.
+// Files that differ are hashed before they count as drifted: uploads made outside a deploy (watch, put) change
+// the mtime without touching the manifest, and a remote copy matching the local file needs no upload either.
+async function detectDrift(
+  client: SftpClient,
+  remoteDir: string,
+  previous: DeployManifest,
+  nextFiles: Record<string, ManifestEntry>,
+  entries: UploadEntry[],
+  states: UploadState[]
+): Promise<void> {
+  if (!Object.values(previous.files).some((entry) => entry.mtime !== undefined)) {
+    return;
+  }
+
+  const remoteFiles = new Map(
+    (await listRemoteRecursive(client, remoteDir, () => false)).map((entry) => [entry.relativePosix, entry])
+  );
+  for (const [index, entry] of entries.entries()) {
+    const last = previous.files[entry.relativePosix];
+    if (!last || last.mtime === undefined) {
+      continue;
+    }
+    const remote = remoteFiles.get(entry.relativePosix);
+    if (!remote) {
+      states[index] = "new";
+      continue;
+    }
+    if (remote.size === last.size && remote.modifyTime === last.mtime) {
+      continue;
+    }
+    const next = nextFiles[entry.relativePosix];
+    const remoteHash = entry.link ? undefined : await hashRemoteFile(client, entry.remotePath);
+    if (remoteHash !== undefined && remoteHash === next.hash) {
+      states[index] = "unchanged";
+      next.mtime = remote.modifyTime;
+    } else if (remoteHash !== undefined && remoteHash === last.hash) {
+      if (states[index] === "unchanged") {
+        next.mtime = remote.modifyTime;
+      }
+    } else {
+      states[index] = states[index] === "changed" ? "conflict" : "drifted";
+    }
+  }
+}
+
+async function recordRemoteTimes(
+  client: SftpClient,
+  remoteDir: string,
+  files: Record<string, ManifestEntry>
+): Promise<void> {
+  const dirs = new Set<string>();
+  for (const [relative, entry] of Object.entries(files)) {
+    if (entry.mtime === undefined) {
+      dirs.add(path.posix.dirname(relative));
+    }
+  }
+
+  for (const dir of dirs) {
+    const fullDir = dir === "." ? remoteDir : `${remoteDir}/${dir}`;
+    let listing: SftpClient.FileInfo[];
+    try {
+      listing = await client.list(fullDir);
+    } catch {
+      continue;
+    }
+    for (const item of listing) {
+      const relative = dir === "." ? item.name : `${dir}/${item.name}`;
+      const entry = files[relative];
+      if (entry && entry.mtime === undefined && item.size === entry.size) {
+        entry.mtime = item.modifyTime;
+      }
+    }
+  }
+}
+
+async function downloadForReview(
+  client: SftpClient,
+  entries: UploadEntry[],
+  reviewDir: string,
+  transfer?: TransferOptions
+): Promise<void> {
+  for (const entry of entries) {
+    const localPath = path.join(reviewDir, ...entry.relativePosix.split("/"));
+    fs.mkdirSync(path.dirname(localPath), { recursive: true });
+    const { size } = await client.stat(entry.remotePath);
+    await getWithProgress(client, entry.remotePath, localPath, size, undefined, transfer);
+  }
+  console.log(`Downloaded ${entries.length} remote copies to ${reviewDir}`);
+}
+
+export async function planSync(options: SyncOptions): Promise<SyncPlan> {
+  const { localDir, remoteDir, clean, sftp, verify } = options;
+  const workers = resolveWorkers(options);
   const absoluteLocal = path.resolve(localDir);
   const normalizedRemoteDir = normalizeRemotePath(remoteDir);
+  const rules = options.rules || EMPTY_RULES;
+  const matcher = createIgnoreMatcher(absoluteLocal, rules, { builtins: true });
 
-  const files = await fg(["**/*"], {
-    cwd: absoluteLocal,
-    onlyFiles: true,
-    dot: true,
-    ignore: DEFAULT_IGNORES,
-  });
+  const listing = await listLocalFiles(absoluteLocal, options.transfer?.followSymlinks);
+  const files = listing.files.filter((file) => !matcher.ignores(toPosixRelative(file)));
+  const links = Object.keys(listing.links).filter((link) => !matcher.ignores(link));
 
-  const uploaded: string[] = [];
-  const skipped: string[] = [];
-  const deleted: string[] = [];
-  const uploadPlan: Array<{
-    localPath: string;
-    remotePath: string;
-    relativePosix: string;
-    remoteDirname: string;
-    size: number;
-  }> = [];
-
-  for (const file of files) {
-    const localPath = path.join(absoluteLocal, file);
-    const relativePosix = toPosixRelative(file);
-    const remotePath = `${normalizedRemoteDir}/${relativePosix}`;
-    const remoteDirname = path.posix.dirname(remotePath);
-    const stat = fs.statSync(localPath);
-    const upload = await shouldUpload(sftp, remotePath, stat);
+  const remoteExists = (await resolveRemoteType(sftp, normalizedRemoteDir)) === "d";
+  if (verify && remoteExists) {
+    console.log("Rebuilding manifest from remote files...");
+  }
+  const previous = !remoteExists
+    ? createManifest()
+    : verify
+      ? await buildRemoteManifest(sftp, normalizedRemoteDir)
+      : await readRemoteManifest(sftp, normalizedRemoteDir);
 
-    if (upload) {
-      uploadPlan.push({
+  const nextFiles: Record<string, ManifestEntry> = {};
+  const states: UploadState[] = new Array(files.length);
+  const entries: UploadEntry[] = new Array(files.length);
+
+  const planFailures = await runPool(
+    files.map((file, index) => ({ file, index })),
+    workers.length,
+    async ({ file, index }, worker) => {
+      const localPath = path.join(absoluteLocal, file);
+      const relativePosix = toPosixRelative(file);
+      const remotePath = `${normalizedRemoteDir}/${relativePosix}`;
+      const stat = fs.statSync(localPath);
+      const hash = await hashLocalFile(localPath);
+      nextFiles[relativePosix] = { hash, size: stat.size, mode: stat.mode & 0o777 };
+
+      entries[index] = {
         localPath,
         remotePath,
         relativePosix,
-        remoteDirname,
+        remoteDirname: path.posix.dirname(remotePath),
         size: stat.size,
-      });
+      };
+
+      if (previous) {
+        const last = previous.files[relativePosix];
+        states[index] = !last ? "new" : last.hash !== hash ? "changed" : "unchanged";
+      } else {
+        states[index] = await compareRemote(workers[worker], remotePath, stat);
+      }
+    }
+  );
+  if (planFailures.length > 0) {
+    throw planFailures[0].error;
+  }
+
+  for (const relativePosix of links) {
+    const target = listing.links[relativePosix];
+    const remotePath = `${normalizedRemoteDir}/${relativePosix}`;
+    const last = previous?.files[relativePosix];
+    nextFiles[relativePosix] = { hash: "", size: 0, mode: 0o777, link: target };
+    entries.push({
+      localPath: path.join(absoluteLocal, relativePosix),
+      remotePath,
+      relativePosix,
+      remoteDirname: path.posix.dirname(remotePath),
+      size: 0,
+      link: target,
+    });
+    if (previous) {
+      states.push(!last ? "new" : last.link !== target ? "changed" : "unchanged");
     } else {
-      skipped.push(relativePosix);
+      states.push(await compareRemoteLink(sftp, remotePath, target));
     }
   }
 
-  const totalBytes = uploadPlan.reduce((sum, entry) => sum + entry.size, 0);
-  if (!dryRun && uploadPlan.length > 0) {
-    console.log(`Uploading ${uploadPlan.length} files (${formatBytes(totalBytes)})`);
+  if (previous && remoteExists && !verify) {
+    await detectDrift(sftp, normalizedRemoteDir, previous, nextFiles, entries, states);
   }
+  entries.forEach((entry, index) => {
+    const last = previous?.files[entry.relativePosix];
+    if (last && states[index] === "drifted") {
+      nextFiles[entry.relativePosix] = last;
+    } else if (last && states[index] === "unchanged") {
+      nextFiles[entry.relativePosix].mtime ??= last.mtime;
+    }
+  });
 
-  const progress =
-    !dryRun && uploadPlan.length > 0 ? new TransferProgress(totalBytes, "Uploading") : undefined;
+  const plan: SyncPlan = {
+    localDir: absoluteLocal,
+    remoteDir: normalizedRemoteDir,
+    added: entries.filter((_, index) => states[index] === "new"),
+    changed: entries.filter((_, index) => states[index] === "changed"),
+    unchanged: entries.filter((_, index) => states[index] === "unchanged"),
+    toDelete: [],
+    drifted: entries.filter((_, index) => states[index] === "drifted"),
+    conflicts: entries.filter((_, index) => states[index] === "conflict"),
+    previous,
+    nextFiles,
+  };
 
-  const remoteDirs = new Set<string>();
+  if (clean && remoteExists) {
+    const protectedPaths = createIgnoreMatcher(absoluteLocal, rules, { builtins: false });
+    const remoteFiles = await listRemoteRecursive(sftp, normalizedRemoteDir, (relative, isDirectory) =>
+      protectedPaths.ignores(relative, isDirectory)
+    );
+    const localSet = new Set([...files.map((file) => toPosixRelative(file)), ...links]);
+    localSet.add(MANIFEST_NAME);
+    localSet.add(DEPLOY_LOG);
+    const isLocal = (relative: string) =>
+      localSet.has(relative) ||
+      (relative.endsWith(PART_SUFFIX) && localSet.has(relative.slice(0, -PART_SUFFIX.length)));
+    plan.toDelete = remoteFiles.filter((remoteFile) => !isLocal(remoteFile.relativePosix));
+  }
+
+  return plan;
+}
 
+async function uploadLinks(
+  entries: UploadEntry[],
+  workers: SftpClient[]
+): Promise<{ uploaded: string[]; failed: SyncFailure[] }> {
+  const uploaded: string[] = [];
+  const failures = await runPool(entries, workers.length, async (entry, worker) => {
+    await putSymlink(workers[worker], entry.link as string, entry.remotePath);
+    uploaded.push(entry.relativePosix);
+  });
+  return {
+    uploaded,
+    failed: failures.map((failure) => ({ path: failure.item.relativePosix, error: failure.error.message })),
+  };
+}
+
+async function uploadFiles(
+  entries: UploadEntry[],
+  workers: SftpClient[],
+  totalBytes: number,
+  transfer?: TransferOptions
+): Promise<{ uploaded: string[]; failed: SyncFailure[] }> {
+  const uploaded: string[] = [];
+  const progress = new TransferProgress(totalBytes, "Uploading", transfer?.limiter?.bytesPerSecond);
   try {
-    for (const entry of uploadPlan) {
-      if (!remoteDirs.has(entry.remoteDirname)) {
-        if (!dryRun) {
-          await ensureRemoteDir(sftp, entry.remoteDirname);
-        }
-        remoteDirs.add(entry.remoteDirname);
-      }
+    const failures = await runPool(entries, workers.length, async (entry, worker) => {
+      await putWithProgress(workers[worker], entry.localPath, entry.remotePath, progress, transfer);
+      uploaded.push(entry.relativePosix);
+    });
+    return {
+      uploaded,
+      failed: failures.map((failure) => ({ path: failure.item.relativePosix, error: failure.error.message })),
+    };
+  } finally {
+    progress.finish();
+  }
+}
+
+export async function applySyncPlan(plan: SyncPlan, options: SyncOptions): Promise<SyncResult> {
+  const { clean, dryRun, sftp } = options;
+  const workers = resolveWorkers(options);
+  const { previous, nextFiles } = plan;
+  const remoteChanged = [...plan.conflicts, ...plan.drifted];
+  const overwrite = options.conflicts === "overwrite";
+  const uploadPlan = [...plan.added, ...plan.changed, ...(overwrite ? remoteChanged : [])];
+
+  const uploaded: string[] = [];
+  const skipped = [...plan.unchanged, ...(overwrite ? [] : remoteChanged)].map((entry) => entry.relativePosix);
+  const deleted: string[] = [];
+  const failed: SyncFailure[] = [];
+
+  if (dryRun) {
+    return {
+      uploaded: uploadPlan.map((entry) => entry.relativePosix),
+      skipped,
+      deleted: plan.toDelete.map((entry) => entry.relativePosix),
+      failed,
+      bytes: uploadPlan.reduce((sum, entry) => sum + entry.size, 0),
+    };
+  }
 
-      if (!dryRun) {
-        await putWithProgress(sftp, entry.localPath, entry.remotePath, progress);
+  if (plan.conflicts.length > 0 && !options.conflicts) {
+    throw new Error(
+      `${plan.conflicts.length} files changed both locally and on the server since the last deploy. ` +
+        "Choose how to handle them with --on-conflict overwrite|skip|download."
+    );
+  }
+  if (overwrite) {
+    for (const entry of plan.drifted) {
+      const { hash, size, mode } = nextFiles[entry.relativePosix];
+      nextFiles[entry.relativePosix] = { hash, size, mode };
+    }
+  } else {
+    for (const entry of plan.conflicts) {
+      const last = previous?.files[entry.relativePosix];
+      if (last) {
+        nextFiles[entry.relativePosix] = last;
       }
-      uploaded.push(entry.relativePosix);
     }
-  } finally {
-    if (progress) {
-      progress.finish();
+  }
+  if (options.conflicts === "download" && remoteChanged.length > 0) {
+    if (!options.reviewDir) {
+      throw new Error("No directory configured for downloaded remote copies.");
     }
+    await downloadForReview(sftp, remoteChanged, options.reviewDir, options.transfer);
   }
 
-  if (clean) {
-    const remoteFiles = await listRemoteRecursive(sftp, normalizedRemoteDir);
-    const localSet = new Set(files.map((file) => `${normalizedRemoteDir}/${toPosixRelative(file)}`));
+  if (uploadPlan.length > 0) {
+    const totalBytes = uploadPlan.reduce((sum, entry) => sum + entry.size, 0);
+    console.log(`Uploading ${uploadPlan.length} files (${formatBytes(totalBytes)})`);
+
+    await ensureRemoteDirs(
+      workers,
+      uploadPlan.map((entry) => entry.remoteDirname),
+      plan.remoteDir
+    );
 
-    for (const remoteFile of remoteFiles) {
-      if (!localSet.has(remoteFile)) {
-        if (!dryRun) {
-          await removeRemoteRecursive(sftp, remoteFile);
-        }
-        deleted.push(remoteFile);
+    const fileUploads = uploadPlan.filter((entry) => entry.link === undefined);
+    // Writing through a symlink that was deployed earlier would modify its target instead.
+    const replacedLinks = fileUploads.filter((entry) => previous?.files[entry.relativePosix]?.link !== undefined);
+    await runPool(replacedLinks, workers.length, async (entry, worker) => {
+      await workers[worker].delete(entry.remotePath, true);
+    });
+    if (
+      fileUploads.length > 0 &&
+      options.archive &&
+      (await uploadArchive(sftp, fileUploads, plan.remoteDir, totalBytes, options.transfer))
+    ) {
+      uploaded.push(...fileUploads.map((entry) => entry.relativePosix));
+    } else if (fileUploads.length > 0) {
+      const result = await uploadFiles(fileUploads, workers, totalBytes, options.transfer);
+      uploaded.push(...result.uploaded);
+      failed.push(...result.failed);
+    }
+    const links = await uploadLinks(uploadPlan.filter((entry) => entry.link !== undefined), workers);
+    uploaded.push(...links.uploaded);
+    failed.push(...links.failed);
+    for (const failure of failed) {
+      const last = previous?.files[failure.path];
+      if (last) {
+        nextFiles[failure.path] = last;
+      } else {
+        delete nextFiles[failure.path];
       }
     }
   }
 
-  return { uploaded, skipped, deleted };
+  if (clean && plan.toDelete.length > 0) {
+    const failures = await runPool(plan.toDelete, workers.length, async (entry, worker) => {
+      await workers[worker].delete(entry.remotePath);
+      deleted.push(entry.relativePosix);
+    });
+    failed.push(...failures.map((failure) => ({ path: failure.item.relativePosix, error: failure.error.message })));
+  }
+
+  if (previous && !clean) {
+    for (const [relative, entry] of Object.entries(previous.files)) {
+      if (!nextFiles[relative]) {
+        nextFiles[relative] = entry;
+      }
+    }
+  }
+  await ensureRemoteDir(sftp, plan.remoteDir);
+  await recordRemoteTimes(sftp, plan.remoteDir, nextFiles);
+  await writeRemoteManifest(sftp, plan.remoteDir, createManifest(nextFiles));
+
+  const sizes = new Map(uploadPlan.map((entry) => [entry.relativePosix, entry.size]));
+  const bytes = uploaded.reduce((sum, relative) => sum + (sizes.get(relative) || 0), 0);
+  return { uploaded, skipped, deleted, failed, bytes };
+}
+
+export async function syncDirectory(options: SyncOptions): Promise<SyncResult> {
+  const plan = await planSync(options);
+  return applySyncPlan(plan, options);
 }
@@ -0,0 +1,195 @@
+import fs from "fs";
+import path from "path";
+import fg from "fast-glob";
+import type SftpClient from "ssh2-sftp-client";
+import { ensureRemoteDir, putWithProgress, removeRemoteRecursive } from "../sftp/client";
+import { normalizeRemotePath } from "../utils/path";
+import { formatBytes, TransferProgress } from "../utils/progress";
+import { createIgnoreMatcher, type IgnoreRules } from "./ignore";
+import { EMPTY_RULES, toPosixRelative } from "./sync";
+
+export interface WatchOptions {
+  localDir: string;
+  remoteDir: string;
+  withClient: <T>(handler: (client: SftpClient) => Promise<T>) => Promise<T>;
+  rules?: IgnoreRules;
+  debounceMs?: number;
+  signal: AbortSignal;
+}
+
+export const DEFAULT_DEBOUNCE_MS = 300;
+
+function watchTree(localDir: string, onChange: (relative: string) => void): () => void {
+  try {
+    const watcher = fs.watch(localDir, { recursive: true }, (_event, filename) => {
+      if (filename) {
+        onChange(toPosixRelative(filename.toString()));
+      }
+    });
+    return () => watcher.close();
+  } catch {
+    // Recursive watching is unavailable on some platforms; watch each directory instead.
+  }
+
+  const watchers = new Map<string, fs.FSWatcher>();
+  const addDir = (relativeDir: string) => {
+    if (watchers.has(relativeDir)) {
+      return;
+    }
+    const absoluteDir = path.join(localDir, relativeDir);
+    try {
+      const watcher = fs.watch(absoluteDir, (_event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const relative = relativeDir ? `${relativeDir}/${filename.toString()}` : filename.toString();
+        const absolute = path.join(localDir, relative);
+        if (fs.existsSync(absolute) && fs.statSync(absolute).isDirectory()) {
+          addDir(relative);
+        }
+        onChange(relative);
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(relativeDir);
+      });
+      watchers.set(relativeDir, watcher);
+    } catch {
+      return;
+    }
+    for (const entry of fs.readdirSync(absoluteDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && entry.name !== ".git" && entry.name !== "node_modules") {
+        addDir(relativeDir ? `${relativeDir}/${entry.name}` : entry.name);
+      }
+    }
+  };
+
+  addDir("");
+  return () => {
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+}
+
+async function pushChanges(
+  options: WatchOptions,
+  absoluteLocal: string,
+  remoteDir: string,
+  changed: string[]
+): Promise<void> {
+  const matcher = createIgnoreMatcher(absoluteLocal, options.rules || EMPTY_RULES, { builtins: true });
+  const uploadSizes = new Map<string, number>();
+  const removals: string[] = [];
+
+  for (const relative of changed) {
+    if (matcher.ignores(relative)) {
+      continue;
+    }
+    const localPath = path.join(absoluteLocal, relative);
+    if (!fs.existsSync(localPath)) {
+      removals.push(relative);
+      continue;
+    }
+    const stat = fs.statSync(localPath);
+    if (stat.isFile()) {
+      uploadSizes.set(relative, stat.size);
+      continue;
+    }
+    if (stat.isDirectory()) {
+      const nested = await fg(["**/*"], { cwd: localPath, onlyFiles: true, dot: true, ignore: ["**/.git/**"] });
+      for (const file of nested) {
+        const nestedRelative = `${relative}/${toPosixRelative(file)}`;
+        if (!matcher.ignores(nestedRelative)) {
+          uploadSizes.set(nestedRelative, fs.statSync(path.join(localPath, file)).size);
+        }
+      }
+    }
+  }
+
+  const uploads = [...uploadSizes].map(([relative, size]) => ({ relative, size }));
+  if (uploads.length === 0 && removals.length === 0) {
+    return;
+  }
+
+  await options.withClient(async (client) => {
+    for (const relative of removals) {
+      await removeRemoteRecursive(client, `${remoteDir}/${relative}`);
+      console.log(`Deleted ${relative}`);
+    }
+
+    if (uploads.length === 0) {
+      return;
+    }
+    const totalBytes = uploads.reduce((sum, entry) => sum + entry.size, 0);
+    console.log(`Uploading ${uploads.length} files (${formatBytes(totalBytes)})`);
+    const progress = new TransferProgress(totalBytes, "Uploading");
+    try {
+      const createdDirs = new Set<string>();
+      for (const entry of uploads) {
+        const remotePath = `${remoteDir}/${entry.relative}`;
+        const remoteDirname = path.posix.dirname(remotePath);
+        if (!createdDirs.has(remoteDirname)) {
+          await ensureRemoteDir(client, remoteDirname);
+          createdDirs.add(remoteDirname);
+        }
+        await putWithProgress(client, path.join(absoluteLocal, entry.relative), remotePath, progress);
+      }
+    } finally {
+      progress.finish();
+    }
+    for (const entry of uploads) {
+      console.log(`Uploaded ${entry.relative}`);
+    }
+  });
+}
+
+export function watchDirectory(options: WatchOptions): Promise<void> {
+  const absoluteLocal = path.resolve(options.localDir);
+  const remoteDir = normalizeRemotePath(options.remoteDir);
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  if (!fs.existsSync(absoluteLocal) || !fs.statSync(absoluteLocal).isDirectory()) {
+    return Promise.reject(new Error("Local path must be a directory."));
+  }
+
+  return new Promise((resolve) => {
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+      timer = undefined;
+      const changed = [...pending];
+      pending.clear();
+      running = running
+        .then(() => pushChanges(options, absoluteLocal, remoteDir, changed))
+        .catch((error) => {
+          console.error(error instanceof Error ? error.message : String(error));
+        });
+    };
+
+    const stopWatching = watchTree(absoluteLocal, (relative) => {
+      pending.add(relative);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, debounceMs);
+    });
+
+    const stop = () => {
+      stopWatching();
+      if (timer) {
+        clearTimeout(timer);
+      }
+      running.then(() => resolve());
+    };
+
+    if (options.signal.aborted) {
+      stop();
+      return;
+    }
+    options.signal.addEventListener("abort", stop, { once: true });
+  });
+}
@@ -0,0 +1,58 @@
+export interface ParsedOptions {
+  positional: string[];
+  flags: Set<string>;
+  values: Record<string, string[]>;
+}
+
+export function parseOptions(args: string[], valueOptions: string[] = []): ParsedOptions {
+  const positional: string[] = [];
+  const flags = new Set<string>();
+  const values: Record<string, string[]> = {};
+
+  const addValue = (name: string, value: string) => {
+    values[name] = [...(values[name] || []), value];
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    const eq = arg.indexOf("=");
+    if (arg.startsWith("--") && eq > 2 && valueOptions.includes(arg.slice(0, eq))) {
+      addValue(arg.slice(0, eq), arg.slice(eq + 1));
+      continue;
+    }
+    if (valueOptions.includes(arg)) {
+      const value = args[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      addValue(arg, value);
+      i += 1;
+      continue;
+    }
+    if (arg.length > 1 && arg.startsWith("-")) {
+      flags.add(arg);
+      continue;
+    }
+    positional.push(arg);
+  }
+
+  return { positional, flags, values };
+}
+
+export function lastValue(parsed: ParsedOptions, name: string): string | undefined {
+  const values = parsed.values[name];
+  return values ? values[values.length - 1] : undefined;
+}
+
+// Matches a single-letter flag given alone (-l) or combined with others (-lah), or its long form.
+export function hasFlag(parsed: ParsedOptions, letter: string, long?: string): boolean {
+  for (const flag of parsed.flags) {
+    if (long && flag === long) {
+      return true;
+    }
+    if (/^-[a-zA-Z]+$/.test(flag) && flag.includes(letter)) {
+      return true;
+    }
+  }
+  return false;
+}
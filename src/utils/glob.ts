@@ -0,0 +1,50 @@
+import path from "path";
+import fg from "fast-glob";
+import picomatch from "picomatch";
+import type SftpClient from "ssh2-sftp-client";
+
+export function isGlob(pattern: string): boolean {
+  return picomatch.scan(pattern).isGlob;
+}
+
+export async function expandLocalGlob(pattern: string): Promise<string[]> {
+  const normalized = path.sep === "\\" ? pattern.replace(/\\/g, "/") : pattern;
+  return (await fg(normalized, { onlyFiles: false, dot: false })).sort();
+}
+
+// Expands an absolute remote pattern one segment at a time, listing only the directories that can match.
+export async function expandRemoteGlob(client: SftpClient, pattern: string): Promise<string[]> {
+  const segments = pattern.split("/").filter(Boolean);
+  let current = [""];
+  let globbed = false;
+  for (const segment of segments) {
+    if (!isGlob(segment)) {
+      current = current.map((dir) => `${dir}/${segment}`);
+      continue;
+    }
+    globbed = true;
+    const matches = picomatch(segment);
+    const next: string[] = [];
+    for (const dir of current) {
+      let entries: SftpClient.FileInfo[];
+      try {
+        entries = await client.list(dir || "/");
+      } catch {
+        continue;
+      }
+      next.push(...entries.filter((entry) => matches(entry.name)).map((entry) => `${dir}/${entry.name}`));
+    }
+    current = next;
+  }
+
+  if (globbed && segments.length > 0 && !isGlob(segments[segments.length - 1])) {
+    const existing: string[] = [];
+    for (const candidate of current) {
+      if (await client.exists(candidate)) {
+        existing.push(candidate);
+      }
+    }
+    current = existing;
+  }
+  return current.sort();
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import fg from "fast-glob";
+
+export interface LocalListing {
+  files: string[];
+  links: Record<string, string>;
+}
+
+const LIST_OPTIONS = { dot: true, ignore: ["**/.git/**"] };
+
+function isWithin(baseDir: string, target: string, pathApi: typeof path.posix): boolean {
+  const relative = pathApi.relative(baseDir, target);
+  return !relative.startsWith("..") && !pathApi.isAbsolute(relative);
+}
+
+// A link can only be recreated elsewhere if its target is relative and stays inside the synced tree.
+export function isPortableLink(baseDir: string, linkPath: string, target: string, pathApi = path): boolean {
+  if (pathApi.isAbsolute(target)) {
+    return false;
+  }
+  return isWithin(baseDir, pathApi.resolve(pathApi.dirname(linkPath), target), pathApi);
+}
+
+// Lists files and symlinks relative to localDir (posix separators) without following any link.
+export async function listLocalEntries(localDir: string): Promise<LocalListing> {
+  const listing: LocalListing = { files: [], links: {} };
+  const entries = await fg(["**/*"], {
+    ...LIST_OPTIONS,
+    cwd: localDir,
+    onlyFiles: false,
+    followSymbolicLinks: false,
+    objectMode: true,
+  });
+  for (const entry of entries) {
+    if (entry.dirent.isFile()) {
+      listing.files.push(entry.path);
+    } else if (entry.dirent.isSymbolicLink()) {
+      listing.links[entry.path] = fs.readlinkSync(path.join(localDir, entry.path));
+    }
+  }
+  return listing;
+}
+
+// Unless followSymlinks is set, symlinks that stay inside localDir are returned as links instead of being
+// followed; links pointing elsewhere are followed.
+export async function listLocalFiles(localDir: string, followSymlinks = false): Promise<LocalListing> {
+  if (followSymlinks) {
+    return { files: await fg(["**/*"], { ...LIST_OPTIONS, cwd: localDir, onlyFiles: true }), links: {} };
+  }
+
+  const entries = await listLocalEntries(localDir);
+  const listing: LocalListing = { files: entries.files, links: {} };
+  for (const [relative, target] of Object.entries(entries.links)) {
+    const fullPath = path.join(localDir, relative);
+    if (isPortableLink(localDir, fullPath, target)) {
+      listing.links[relative] = target.split(path.sep).join("/");
+      continue;
+    }
+    const stat = fs.statSync(fullPath, { throwIfNoEntry: false });
+    if (stat?.isFile()) {
+      listing.files.push(relative);
+    } else if (stat?.isDirectory()) {
+      const nested = await fg(["**/*"], { ...LIST_OPTIONS, cwd: fullPath, onlyFiles: true });
+      listing.files.push(...nested.map((file) => `${relative}/${file}`));
+    }
+  }
+  return listing;
+}
+
+export function replaceLocalSymlink(target: string, localPath: string): void {
+  const stat = fs.lstatSync(localPath, { throwIfNoEntry: false });
+  if (stat?.isDirectory()) {
+    throw new Error(`Local path is a directory; remove it or use --follow-symlinks: ${localPath}`);
+  }
+  if (stat) {
+    fs.unlinkSync(localPath);
+  }
+  fs.symlinkSync(target, localPath);
+}
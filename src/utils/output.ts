@@ -1,4 +1,6 @@
 import type { Website } from "../api/hosting";
+import type { PlanItem, PlanSummary } from "../sync/sync";
+import { formatBytes } from "./progress";
 
 export function printWebsites(websites: Website[]): void {
   if (websites.length === 0) {
@@ -11,7 +13,10 @@ export function printWebsites(websites: Website[]): void {
     return [String(index + 1), site.domain, site.username || "-", String(site.order_id || "-"), status];
   });
 
-  const header = ["#", "Domain", "Username", "Order", "Status"];
+  printTable(["#", "Domain", "Username", "Order", "Status"], rows);
+}
+
+export function printTable(header: string[], rows: string[][]): void {
   const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
 
   const formatRow = (row: string[]): string =>
@@ -30,3 +35,30 @@ export function printKeyValue(values: Record<string, string | undefined>): void
     console.log(`${key}: ${value}`);
   }
 }
+
+export function printSyncPlan(title: string, plan: PlanSummary, verbose: boolean): void {
+  const groups: Array<{ label: string; marker: string; entries: PlanItem[]; list: boolean }> = [
+    { label: "New", marker: "+", entries: plan.added, list: true },
+    { label: "Changed", marker: "~", entries: plan.changed, list: true },
+    { label: "Unchanged", marker: "=", entries: plan.unchanged, list: verbose },
+    { label: "To delete", marker: "-", entries: plan.toDelete, list: true },
+  ];
+  if (plan.drifted?.length) {
+    groups.push({ label: "Changed on server", marker: "*", entries: plan.drifted, list: true });
+  }
+  if (plan.conflicts?.length) {
+    groups.push({ label: "Conflicts", marker: "!", entries: plan.conflicts, list: true });
+  }
+
+  console.log(title);
+  for (const group of groups) {
+    const bytes = group.entries.reduce((sum, entry) => sum + entry.size, 0);
+    console.log(`${group.label}: ${group.entries.length} files (${formatBytes(bytes)})`);
+    if (!group.list) {
+      continue;
+    }
+    for (const entry of group.entries) {
+      console.log(`  ${group.marker} ${entry.relativePosix}`);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import os from "os";
 import path from "path";
 
 export function normalizeRemotePath(remotePath: string): string {
@@ -39,3 +40,22 @@ export function ensureWithinRoot(remoteRoot: string, targetPath: string): string
   }
   return normalized;
 }
+
+export function sanitizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/[^a-z0-9.-]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export function resolveLocalPath(localPath: string): string {
+  if (localPath === "~" || localPath.startsWith("~/") || localPath.startsWith(`~${path.sep}`)) {
+    return path.join(os.homedir(), localPath.slice(1));
+  }
+  return path.resolve(localPath);
+}
+
+export function formatLocalPath(localPath: string): string {
+  const home = os.homedir();
+  if (localPath === home) {
+    return "~";
+  }
+  return localPath.startsWith(`${home}${path.sep}`) ? `~${localPath.slice(home.length)}` : localPath;
+}
@@ -0,0 +1,29 @@
+export interface PoolFailure<T> {
+  item: T;
+  error: Error;
+}
+
+export async function runPool<T>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T, worker: number) => Promise<void>
+): Promise<PoolFailure<T>[]> {
+  const failures: PoolFailure<T>[] = [];
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  let next = 0;
+
+  const runWorker = async (worker: number): Promise<void> => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      try {
+        await task(item, worker);
+      } catch (error) {
+        failures.push({ item, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, (_, worker) => runWorker(worker)));
+  return failures;
+}
@@ -25,14 +25,16 @@ export class TransferProgress implements ProgressReporter {
   private totalBytes: number;
   private transferredBytes = 0;
   private readonly label: string;
+  private readonly rateLimit?: number;
   private readonly startTime = Date.now();
   private lastRender = 0;
   private lastLineLength = 0;
   private readonly enabled = Boolean(process.stdout.isTTY);
 
-  constructor(totalBytes: number, label: string) {
+  constructor(totalBytes: number, label: string, rateLimit?: number) {
     this.totalBytes = Math.max(0, totalBytes);
     this.label = label;
+    this.rateLimit = rateLimit;
     this.render(true);
   }
 
@@ -74,6 +76,9 @@ export class TransferProgress implements ProgressReporter {
     let line = `${this.label} [${bar}] ${percentText}% ${formatBytes(this.transferredBytes)}/${formatBytes(
       this.totalBytes
     )} ${formatBytes(speed)}/s`;
+    if (this.rateLimit) {
+      line += ` (limit ${formatBytes(this.rateLimit)}/s)`;
+    }
 
     const columns = process.stdout.columns || 80;
     if (line.length > columns - 1) {
@@ -0,0 +1,26 @@
+import tar from "tar-stream";
+
+export type TarHeader = Partial<tar.Header> & { name: string };
+
+export function writeEntry(pack: tar.Pack, header: TarHeader, input?: NodeJS.ReadableStream | string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = (error?: Error | null) => (error ? reject(error) : resolve());
+    if (typeof input === "string") {
+      pack.entry(header, input, done);
+      return;
+    }
+    const entry = pack.entry(header, done);
+    if (input) {
+      input.on("error", reject);
+      input.on("data", (chunk: Buffer) => {
+        if (!entry.write(chunk)) {
+          input.pause();
+          entry.once("drain", () => input.resume());
+        }
+      });
+      input.on("end", () => entry.end(null));
+    } else {
+      entry.end(null);
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { Transform } from "stream";
+
+const RATE_UNITS: Record<string, number> = { "": 1, k: 1024, m: 1024 * 1024, g: 1024 * 1024 * 1024 };
+
+export function parseRate(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)b?(?:\/s)?$/i);
+  if (!match) {
+    throw new Error(`Invalid rate: ${value}. Use a number of bytes per second, optionally with K, M or G.`);
+  }
+  return Math.floor(Number(match[1]) * RATE_UNITS[match[2].toLowerCase()]);
+}
+
+export class RateLimiter {
+  readonly bytesPerSecond: number;
+  private nextSlot = 0;
+
+  constructor(bytesPerSecond: number) {
+    this.bytesPerSecond = bytesPerSecond;
+  }
+
+  // Each caller reserves the next free slot, so concurrent streams share one budget.
+  take(bytes: number): Promise<void> {
+    const now = Date.now();
+    const start = Math.max(now, this.nextSlot);
+    this.nextSlot = start + (bytes / this.bytesPerSecond) * 1000;
+    const wait = start - now;
+    return wait > 0 ? new Promise((resolve) => setTimeout(resolve, wait)) : Promise.resolve();
+  }
+
+  throttle(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        this.take(chunk.length).then(() => callback(null, chunk), callback);
+      },
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { EventEmitter } from "node:events";
+import { test } from "node:test";
+import type SftpClient from "ssh2-sftp-client";
+import { uploadArchive } from "../src/sync/archive";
+import type { UploadEntry } from "../src/sync/sync";
+
+// An SFTP client whose "server" is a local directory; exec runs commands with the local shell.
+function createLocalClient(put?: (body: NodeJS.ReadableStream, remotePath: string) => Promise<void>): SftpClient {
+  const exec = (command: string, callback: (error: Error | undefined, channel: EventEmitter) => void) => {
+    const child = spawn("sh", ["-c", command]);
+    const channel = Object.assign(new EventEmitter(), { stderr: new EventEmitter() });
+    child.stdout.on("data", (chunk: Buffer) => channel.emit("data", chunk));
+    child.stderr.on("data", (chunk: Buffer) => channel.stderr.emit("data", chunk));
+    child.on("close", (code: number | null) => channel.emit("close", code));
+    callback(undefined, channel);
+  };
+  const client = {
+    client: { exec },
+    mkdir: async (dir: string) => {
+      fs.mkdirSync(dir, { recursive: true });
+    },
+    put:
+      put ||
+      ((body: NodeJS.ReadableStream, remotePath: string) =>
+        new Promise<void>((resolve, reject) => {
+          body.pipe(fs.createWriteStream(remotePath)).on("finish", resolve).on("error", reject);
+        })),
+  };
+  return client as unknown as SftpClient;
+}
+
+function setup(files: Record<string, string | Buffer>): { localDir: string; remoteDir: string; entries: UploadEntry[] } {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "hostinger-archive-"));
+  const localDir = path.join(root, "local");
+  const remoteDir = path.join(root, "remote");
+  fs.mkdirSync(remoteDir, { recursive: true });
+  const entries = Object.entries(files).map(([relativePosix, content]) => {
+    const localPath = path.join(localDir, relativePosix);
+    fs.mkdirSync(path.dirname(localPath), { recursive: true });
+    fs.writeFileSync(localPath, content);
+    const remotePath = `${remoteDir}/${relativePosix}`;
+    fs.mkdirSync(path.dirname(remotePath), { recursive: true });
+    return { localPath, remotePath, relativePosix, remoteDirname: path.dirname(remotePath), size: content.length };
+  });
+  return { localDir, remoteDir, entries };
+}
+
+test("uploadArchive extracts files into the remote directory", async () => {
+  const { remoteDir, entries } = setup({ "index.html": "home", "assets/app.js": "app" });
+  assert.equal(await uploadArchive(createLocalClient(), entries, remoteDir, 7), true);
+  assert.equal(fs.readFileSync(path.join(remoteDir, "index.html"), "utf8"), "home");
+  assert.equal(fs.readFileSync(path.join(remoteDir, "assets/app.js"), "utf8"), "app");
+  assert.deepEqual(fs.readdirSync(remoteDir).sort(), ["assets", "index.html"]);
+});
+
+test("uploadArchive falls back when the put fails partway through", async () => {
+  const { remoteDir, entries } = setup({ "a.bin": randomBytes(1 << 20), "b.bin": randomBytes(1 << 20) });
+  // Reads one chunk, stops draining and rejects later, like a connection that drops mid-transfer.
+  const put = (body: NodeJS.ReadableStream) =>
+    new Promise<void>((_resolve, reject) => {
+      body.once("data", () => {
+        body.pause();
+        setTimeout(() => reject(new Error("quota exceeded")), 50);
+      });
+    });
+  assert.equal(await uploadArchive(createLocalClient(put), entries, remoteDir, 2 << 20), false);
+  assert.deepEqual(fs.readdirSync(remoteDir), []);
+});
+
+test("uploadArchive falls back instead of moving a file into a directory of the same name", async () => {
+  const { remoteDir, entries } = setup({ "docs": "now a file" });
+  fs.rmSync(path.join(remoteDir, "docs"), { force: true });
+  fs.mkdirSync(path.join(remoteDir, "docs"));
+  assert.equal(await uploadArchive(createLocalClient(), entries, remoteDir, 10), false);
+  assert.deepEqual(fs.readdirSync(path.join(remoteDir, "docs")), []);
+});